@@ -24,6 +24,20 @@ router.post('/analyze-repository', authMiddleware, async (req: AuthRequest, res)
       return res.status(404).json({ error: 'Repository not found' })
     }
 
+    // Security analyses also get the dependencies matched against known advisories
+    const vulnerabilities =
+      type === 'security'
+        ? (await repositoryService.getVulnerabilities(repositoryId, req.user!.userId))
+            .vulnerabilities.slice(0, 20)
+            .map((v) => ({
+              advisoryId: v.advisoryId,
+              package: v.package.name,
+              version: v.package.version,
+              severity: v.severity,
+              fixedVersion: v.fixedVersion,
+            }))
+        : undefined
+
     // Build context from repository data
     const context = {
       languages: repository.languages.map((l) => ({
@@ -39,6 +53,7 @@ router.post('/analyze-repository', authMiddleware, async (req: AuthRequest, res)
         author: c.authorName,
         date: c.committedAt.toISOString(),
       })),
+      vulnerabilities,
     }
 
     const analysis = await geminiService.analyzeRepository({
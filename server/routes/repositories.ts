@@ -1,6 +1,15 @@
 import { Router } from 'express'
 import { authMiddleware, AuthRequest } from '../middleware'
 import { repositoryService } from '../services/repositoryService'
+import { GitSecurityError } from '../services/gitRunner'
+import {
+  isValidTimeZone,
+  ActivityGranularity,
+  defaultBranchNamingPolicy,
+} from '../utils/repositoryUtils'
+import { renderMarkdown, renderKeepAChangelog, ChangelogFormat } from '../utils/changelog'
+import { SbomFormat } from '../utils/sbom'
+import { SEVERITY_ORDER, Severity } from '../utils/osv'
 
 const router = Router()
 
@@ -18,12 +27,6 @@ router.post('/', authMiddleware, async (req: AuthRequest, res) => {
       return res.status(400).json({ error: 'Name and URL are required' })
     }
 
-    // Validate URL format
-    const urlPattern = /^https?:\/\/.+/
-    if (!urlPattern.test(url)) {
-      return res.status(400).json({ error: 'Invalid repository URL' })
-    }
-
     const repository = await repositoryService.createRepository({
       name,
       url,
@@ -36,6 +39,15 @@ router.post('/', authMiddleware, async (req: AuthRequest, res) => {
     res.status(201).json({ repository })
   } catch (error: any) {
     console.error('Create repository error:', error)
+
+    if (error.message === 'Analysis already running') {
+      return res.status(409).json({ error: error.message })
+    }
+
+    if (error instanceof GitSecurityError) {
+      return res.status(error.status).json({ error: error.message, code: error.code })
+    }
+
     console.error('Error stack:', error.stack)
     res.status(500).json({ error: 'Failed to create repository', details: error.message })
   }
@@ -102,6 +114,681 @@ router.get('/:id/stats', authMiddleware, async (req: AuthRequest, res) => {
   }
 })
 
+/**
+ * GET /api/repositories/:id/commits
+ * List commits with cursor pagination and filters
+ * Query: cursor, limit, author, since, until, branch, path, q, type
+ */
+router.get('/:id/commits', authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const id = parseInt(req.params.id)
+
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid repository ID' })
+    }
+
+    const query = (name: string) => {
+      const value = req.query[name]
+      return typeof value === 'string' && value ? value : undefined
+    }
+
+    const cursor = query('cursor') ? parseInt(query('cursor')!) : undefined
+    if (cursor !== undefined && isNaN(cursor)) {
+      return res.status(400).json({ error: 'Invalid cursor' })
+    }
+
+    const limit = Math.min(Math.max(parseInt(query('limit') || '') || 50, 1), 100)
+
+    const since = query('since') ? new Date(query('since')!) : undefined
+    const until = query('until') ? new Date(query('until')!) : undefined
+    if ((since && isNaN(since.getTime())) || (until && isNaN(until.getTime()))) {
+      return res.status(400).json({ error: 'Invalid date' })
+    }
+
+    const result = await repositoryService.listCommits(id, req.user!.userId, {
+      cursor,
+      limit,
+      author: query('author'),
+      since,
+      until,
+      branch: query('branch'),
+      path: query('path'),
+      message: query('q'),
+      type: query('type'),
+    })
+
+    res.json(result)
+  } catch (error: any) {
+    console.error('List commits error:', error)
+
+    if (error.message === 'Repository not found') {
+      return res.status(404).json({ error: error.message })
+    }
+
+    res.status(500).json({ error: 'Failed to list commits' })
+  }
+})
+
+/**
+ * GET /api/repositories/:id/commits/:hash
+ * Get a commit and its file changes by full or abbreviated hash
+ */
+router.get('/:id/commits/:hash', authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const id = parseInt(req.params.id)
+
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid repository ID' })
+    }
+
+    if (!/^[0-9a-f]{4,40}$/i.test(req.params.hash)) {
+      return res.status(400).json({ error: 'Invalid commit hash' })
+    }
+
+    const commit = await repositoryService.getCommit(id, req.user!.userId, req.params.hash)
+
+    res.json({ commit })
+  } catch (error: any) {
+    console.error('Get commit error:', error)
+
+    if (error.message === 'Repository not found' || error.message === 'Commit not found') {
+      return res.status(404).json({ error: error.message })
+    }
+
+    if (error.message === 'Ambiguous commit hash') {
+      return res.status(400).json({ error: error.message })
+    }
+
+    res.status(500).json({ error: 'Failed to get commit' })
+  }
+})
+
+/**
+ * GET /api/repositories/:id/files/history?path=
+ * Get the commits that touched a file across renames, with a line-count timeline
+ */
+router.get('/:id/files/history', authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const id = parseInt(req.params.id)
+
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid repository ID' })
+    }
+
+    if (typeof req.query.path !== 'string' || !req.query.path) {
+      return res.status(400).json({ error: 'Path is required' })
+    }
+
+    const history = await repositoryService.getFileHistory(id, req.user!.userId, req.query.path)
+
+    res.json({ history })
+  } catch (error: any) {
+    console.error('Get file history error:', error)
+
+    if (error.message === 'Repository not found' || error.message === 'File not found') {
+      return res.status(404).json({ error: error.message })
+    }
+
+    res.status(500).json({ error: 'Failed to get file history' })
+  }
+})
+
+/**
+ * GET /api/repositories/:id/hotspots
+ * Rank files and directories by change frequency times size
+ * Query: since, until, sort (score, changes, churn, lines, size, path), limit
+ */
+router.get('/:id/hotspots', authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const id = parseInt(req.params.id)
+
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid repository ID' })
+    }
+
+    const since = req.query.since ? new Date(req.query.since as string) : undefined
+    const until = req.query.until ? new Date(req.query.until as string) : undefined
+    if ((since && isNaN(since.getTime())) || (until && isNaN(until.getTime()))) {
+      return res.status(400).json({ error: 'Invalid date' })
+    }
+
+    const sortFields = ['score', 'changes', 'churn', 'lines', 'size', 'path'] as const
+    const isSortField = (value: string): value is (typeof sortFields)[number] =>
+      (sortFields as readonly string[]).includes(value)
+    const sort = (req.query.sort as string) || 'score'
+    if (!isSortField(sort)) {
+      return res.status(400).json({ error: `Sort must be one of: ${sortFields.join(', ')}` })
+    }
+
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 50, 1), 500)
+
+    const hotspots = await repositoryService.getHotspots(id, req.user!.userId, {
+      since,
+      until,
+      sort,
+      limit,
+    })
+
+    res.json({ hotspots })
+  } catch (error: any) {
+    console.error('Get hotspots error:', error)
+
+    if (error.message === 'Repository not found') {
+      return res.status(404).json({ error: error.message })
+    }
+
+    res.status(500).json({ error: 'Failed to get hotspots' })
+  }
+})
+
+/**
+ * GET /api/repositories/:id/coupling?path=
+ * Get files and directories that change together
+ * Query: path, since, until, minCoChanges, minConfidence, maxFilesPerCommit, limit
+ */
+router.get('/:id/coupling', authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const id = parseInt(req.params.id)
+
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid repository ID' })
+    }
+
+    const since = req.query.since ? new Date(req.query.since as string) : undefined
+    const until = req.query.until ? new Date(req.query.until as string) : undefined
+    if ((since && isNaN(since.getTime())) || (until && isNaN(until.getTime()))) {
+      return res.status(400).json({ error: 'Invalid date' })
+    }
+
+    const minConfidence = req.query.minConfidence
+      ? parseFloat(req.query.minConfidence as string)
+      : 0.3
+    if (isNaN(minConfidence) || minConfidence < 0 || minConfidence > 1) {
+      return res.status(400).json({ error: 'minConfidence must be between 0 and 1' })
+    }
+
+    const coupling = await repositoryService.getCoupling(id, req.user!.userId, {
+      path: typeof req.query.path === 'string' ? req.query.path : undefined,
+      since,
+      until,
+      minCoChanges: Math.max(parseInt(req.query.minCoChanges as string) || 3, 1),
+      minConfidence,
+      maxFilesPerCommit: Math.max(parseInt(req.query.maxFilesPerCommit as string) || 50, 2),
+      limit: Math.min(Math.max(parseInt(req.query.limit as string) || 50, 1), 500),
+    })
+
+    res.json({ coupling })
+  } catch (error: any) {
+    console.error('Get coupling error:', error)
+
+    if (error.message === 'Repository not found' || error.message === 'Path not found') {
+      return res.status(404).json({ error: error.message })
+    }
+
+    res.status(500).json({ error: 'Failed to get change coupling' })
+  }
+})
+
+/**
+ * GET /api/repositories/:id/activity
+ * Get commit and churn time series
+ * Query: granularity (day, week, month), tz, since, until, author, path
+ */
+router.get('/:id/activity', authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const id = parseInt(req.params.id)
+
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid repository ID' })
+    }
+
+    const granularity = ((req.query.granularity as string) || 'day') as ActivityGranularity
+    if (!['day', 'week', 'month'].includes(granularity)) {
+      return res.status(400).json({ error: 'Granularity must be day, week or month' })
+    }
+
+    const timeZone = (req.query.tz as string) || 'UTC'
+    if (!isValidTimeZone(timeZone)) {
+      return res.status(400).json({ error: 'Invalid time zone' })
+    }
+
+    const since = req.query.since ? new Date(req.query.since as string) : undefined
+    const until = req.query.until ? new Date(req.query.until as string) : undefined
+    if ((since && isNaN(since.getTime())) || (until && isNaN(until.getTime()))) {
+      return res.status(400).json({ error: 'Invalid date' })
+    }
+
+    const activity = await repositoryService.getActivity(id, req.user!.userId, {
+      granularity,
+      timeZone,
+      since,
+      until,
+      author: (req.query.author as string) || undefined,
+      path: (req.query.path as string) || undefined,
+    })
+
+    res.json({ activity })
+  } catch (error: any) {
+    console.error('Get activity error:', error)
+
+    if (error.message === 'Repository not found') {
+      return res.status(404).json({ error: error.message })
+    }
+
+    if (error.message === 'Activity range too large') {
+      return res.status(400).json({
+        error: 'Activity range too large: narrow since/until or use a coarser granularity',
+      })
+    }
+
+    res.status(500).json({ error: 'Failed to get activity' })
+  }
+})
+
+/**
+ * GET /api/repositories/:id/punchcard
+ * Get commits per weekday and hour with the share made outside working hours
+ * Query: tz (local or an IANA time zone), workStart, workEnd, since, until, author
+ */
+router.get('/:id/punchcard', authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const id = parseInt(req.params.id)
+
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid repository ID' })
+    }
+
+    const timeZone = (req.query.tz as string) || 'local'
+    if (timeZone !== 'local' && !isValidTimeZone(timeZone)) {
+      return res.status(400).json({ error: 'Invalid time zone' })
+    }
+
+    const start = req.query.workStart ? parseInt(req.query.workStart as string) : 9
+    const end = req.query.workEnd ? parseInt(req.query.workEnd as string) : 18
+    if (isNaN(start) || isNaN(end) || start < 0 || end > 24 || start >= end) {
+      return res
+        .status(400)
+        .json({ error: 'Working hours must satisfy 0 <= workStart < workEnd <= 24' })
+    }
+
+    const since = req.query.since ? new Date(req.query.since as string) : undefined
+    const until = req.query.until ? new Date(req.query.until as string) : undefined
+    if ((since && isNaN(since.getTime())) || (until && isNaN(until.getTime()))) {
+      return res.status(400).json({ error: 'Invalid date' })
+    }
+
+    const punchcard = await repositoryService.getPunchcard(id, req.user!.userId, {
+      timeZone,
+      workingHours: { start, end },
+      since,
+      until,
+      author: (req.query.author as string) || undefined,
+    })
+
+    res.json({ punchcard })
+  } catch (error: any) {
+    console.error('Get punchcard error:', error)
+
+    if (error.message === 'Repository not found') {
+      return res.status(404).json({ error: error.message })
+    }
+
+    res.status(500).json({ error: 'Failed to get punchcard' })
+  }
+})
+
+/**
+ * GET /api/repositories/:id/bus-factor?inactiveDays=&recentDays=
+ * Get the bus factor and files or directories only known by inactive authors. A file's
+ * authors are those who changed it within `recentDays` of its last change.
+ */
+router.get('/:id/bus-factor', authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const id = parseInt(req.params.id)
+
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid repository ID' })
+    }
+
+    const inactiveDays = req.query.inactiveDays ? parseInt(req.query.inactiveDays as string) : 180
+    if (isNaN(inactiveDays) || inactiveDays < 1) {
+      return res.status(400).json({ error: 'inactiveDays must be a positive number' })
+    }
+
+    const recentDays = req.query.recentDays ? parseInt(req.query.recentDays as string) : 365
+    if (isNaN(recentDays) || recentDays < 1) {
+      return res.status(400).json({ error: 'recentDays must be a positive number' })
+    }
+
+    const report = await repositoryService.getBusFactor(
+      id,
+      req.user!.userId,
+      inactiveDays,
+      recentDays
+    )
+
+    res.json({ report })
+  } catch (error: any) {
+    console.error('Get bus factor error:', error)
+
+    if (error.message === 'Repository not found') {
+      return res.status(404).json({ error: error.message })
+    }
+
+    res.status(500).json({ error: 'Failed to get bus factor report' })
+  }
+})
+
+/**
+ * GET /api/repositories/:id/changelog?from=<ref>&to=<ref>&format=
+ * Generate a changelog from conventional commits, with a suggested semver bump
+ * Formats: json (default), markdown, keepachangelog
+ */
+router.get('/:id/changelog', authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const id = parseInt(req.params.id)
+
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid repository ID' })
+    }
+
+    const format = ((req.query.format as string) || 'json') as ChangelogFormat
+    if (!['json', 'markdown', 'keepachangelog'].includes(format)) {
+      return res.status(400).json({ error: 'Format must be json, markdown or keepachangelog' })
+    }
+
+    const from = (req.query.from as string) || undefined
+    const to = (req.query.to as string) || undefined
+    if ([from, to].some((ref) => ref?.startsWith('-'))) {
+      return res.status(400).json({ error: 'Invalid ref' })
+    }
+
+    const changelog = await repositoryService.getChangelog(id, req.user!.userId, { from, to })
+
+    if (format === 'markdown') {
+      return res.type('text/markdown').send(renderMarkdown(changelog))
+    }
+
+    if (format === 'keepachangelog') {
+      return res.type('text/markdown').send(renderKeepAChangelog(changelog))
+    }
+
+    res.json({ changelog })
+  } catch (error: any) {
+    console.error('Get changelog error:', error)
+
+    if (error instanceof GitSecurityError) {
+      return res.status(error.status).json({ error: error.message, code: error.code })
+    }
+
+    if (error.message === 'Repository not found') {
+      return res.status(404).json({ error: error.message })
+    }
+
+    if (error.message.startsWith('Unknown ref')) {
+      return res.status(400).json({ error: error.message })
+    }
+
+    // The mirror was evicted; re-analyzing the repository clones it again
+    if (error.message === 'Repository mirror not available') {
+      return res.status(503).json({ error: error.message })
+    }
+
+    res.status(500).json({ error: 'Failed to generate changelog' })
+  }
+})
+
+/**
+ * GET /api/repositories/:id/releases
+ * Get per-release statistics for tags and the release cadence
+ */
+router.get('/:id/releases', authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const id = parseInt(req.params.id)
+
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid repository ID' })
+    }
+
+    const { releases, cadence } = await repositoryService.getReleases(id, req.user!.userId)
+
+    res.json({ releases, cadence })
+  } catch (error: any) {
+    console.error('Get releases error:', error)
+
+    if (error.message === 'Repository not found') {
+      return res.status(404).json({ error: error.message })
+    }
+
+    res.status(500).json({ error: 'Failed to get releases' })
+  }
+})
+
+/**
+ * GET /api/repositories/:id/branches
+ * Get branch lifecycle analytics
+ * Query: staleDays (default 90), prefixes (comma-separated naming policy override)
+ */
+router.get('/:id/branches', authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const id = parseInt(req.params.id)
+
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid repository ID' })
+    }
+
+    const staleDays = req.query.staleDays ? parseInt(req.query.staleDays as string) : 90
+    if (isNaN(staleDays) || staleDays < 1) {
+      return res.status(400).json({ error: 'staleDays must be a positive number' })
+    }
+
+    const prefixes = req.query.prefixes
+      ? (req.query.prefixes as string)
+          .split(',')
+          .map((prefix) => prefix.trim())
+          .filter(Boolean)
+      : defaultBranchNamingPolicy.prefixes
+
+    const report = await repositoryService.getBranchReport(id, req.user!.userId, {
+      staleDays,
+      policy: { ...defaultBranchNamingPolicy, prefixes },
+    })
+
+    res.json({ report })
+  } catch (error: any) {
+    console.error('Get branches error:', error)
+
+    if (error.message === 'Repository not found') {
+      return res.status(404).json({ error: error.message })
+    }
+
+    res.status(500).json({ error: 'Failed to get branches' })
+  }
+})
+
+/**
+ * GET /api/repositories/:id/quality?path=
+ * Get the static code quality score with its breakdown (whole repository by default)
+ */
+router.get('/:id/quality', authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const id = parseInt(req.params.id)
+
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid repository ID' })
+    }
+
+    const filePath = typeof req.query.path === 'string' ? req.query.path : undefined
+    const quality = await repositoryService.getCodeQuality(id, req.user!.userId, filePath)
+
+    res.json({ quality })
+  } catch (error: any) {
+    console.error('Get code quality error:', error)
+
+    if (error.message === 'Repository not found' || error.message === 'Path not found') {
+      return res.status(404).json({ error: error.message })
+    }
+
+    res.status(500).json({ error: 'Failed to get code quality' })
+  }
+})
+
+/**
+ * GET /api/repositories/:id/sbom?format=
+ * Export dependencies as a CycloneDX (default) or SPDX JSON software bill of materials
+ */
+router.get('/:id/sbom', authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const id = parseInt(req.params.id)
+
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid repository ID' })
+    }
+
+    const format = ((req.query.format as string) || 'cyclonedx') as SbomFormat
+    if (!['cyclonedx', 'spdx'].includes(format)) {
+      return res.status(400).json({ error: 'Format must be cyclonedx or spdx' })
+    }
+
+    const sbom = await repositoryService.getSbom(id, req.user!.userId, format)
+
+    res
+      .type(format === 'spdx' ? 'application/spdx+json' : 'application/vnd.cyclonedx+json')
+      .send(JSON.stringify(sbom, null, 2))
+  } catch (error: any) {
+    console.error('Get SBOM error:', error)
+
+    if (error.message === 'Repository not found') {
+      return res.status(404).json({ error: error.message })
+    }
+
+    res.status(500).json({ error: 'Failed to export SBOM' })
+  }
+})
+
+/**
+ * GET /api/repositories/:id/vulnerabilities?severity=
+ * Get dependencies matched against the local advisory database, optionally only at or
+ * above a minimum severity (critical, high, medium, low)
+ */
+router.get('/:id/vulnerabilities', authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const id = parseInt(req.params.id)
+
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid repository ID' })
+    }
+
+    const severity = (req.query.severity as Severity) || undefined
+    if (severity && !SEVERITY_ORDER.includes(severity)) {
+      return res
+        .status(400)
+        .json({ error: `Severity must be one of: ${SEVERITY_ORDER.join(', ')}` })
+    }
+
+    const report = await repositoryService.getVulnerabilities(id, req.user!.userId, severity)
+
+    res.json({ report })
+  } catch (error: any) {
+    console.error('Get vulnerabilities error:', error)
+
+    if (error.message === 'Repository not found') {
+      return res.status(404).json({ error: error.message })
+    }
+
+    res.status(500).json({ error: 'Failed to get vulnerabilities' })
+  }
+})
+
+/**
+ * GET /api/repositories/:id/secrets?rule=&source=
+ * Get leaked credentials grouped by secret, with where and by whom each was committed.
+ * `source` narrows to secrets still in the tree or only left in history.
+ */
+router.get('/:id/secrets', authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const id = parseInt(req.params.id)
+
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid repository ID' })
+    }
+
+    const source = (req.query.source as 'tree' | 'history') || undefined
+    if (source && source !== 'tree' && source !== 'history') {
+      return res.status(400).json({ error: 'Source must be tree or history' })
+    }
+
+    const report = await repositoryService.getSecrets(id, req.user!.userId, {
+      rule: (req.query.rule as string) || undefined,
+      source,
+    })
+
+    res.json({ report })
+  } catch (error: any) {
+    console.error('Get secrets error:', error)
+
+    if (error.message === 'Repository not found') {
+      return res.status(404).json({ error: error.message })
+    }
+
+    res.status(500).json({ error: 'Failed to get secrets' })
+  }
+})
+
+/**
+ * GET /api/repositories/:id/licenses
+ * Get the detected repository license, files and directories under other licenses, and
+ * copyleft dependencies of a permissively licensed repository
+ */
+router.get('/:id/licenses', authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const id = parseInt(req.params.id)
+
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid repository ID' })
+    }
+
+    const report = await repositoryService.getLicenses(id, req.user!.userId)
+
+    res.json({ report })
+  } catch (error: any) {
+    console.error('Get licenses error:', error)
+
+    if (error.message === 'Repository not found') {
+      return res.status(404).json({ error: error.message })
+    }
+
+    res.status(500).json({ error: 'Failed to get licenses' })
+  }
+})
+
+/**
+ * GET /api/repositories/:id/ownership?path=
+ * Get blame-based code ownership for a file or directory (whole repository by default)
+ */
+router.get('/:id/ownership', authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const id = parseInt(req.params.id)
+
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid repository ID' })
+    }
+
+    const filePath = typeof req.query.path === 'string' ? req.query.path : undefined
+    const ownership = await repositoryService.getOwnership(id, req.user!.userId, filePath)
+
+    res.json({ ownership })
+  } catch (error: any) {
+    console.error('Get ownership error:', error)
+
+    if (error.message === 'Repository not found' || error.message === 'Path not found') {
+      return res.status(404).json({ error: error.message })
+    }
+
+    res.status(500).json({ error: 'Failed to get code ownership' })
+  }
+})
+
 /**
  * POST /api/repositories/:id/analyze
  * Trigger re-analysis of a repository
@@ -122,15 +809,220 @@ router.post('/:id/analyze', authMiddleware, async (req: AuthRequest, res) => {
     }
 
     // Start analysis in background
-    repositoryService.analyzeRepository(id).catch(console.error)
+    const run = await repositoryService.startAnalysis(id)
 
-    res.json({ message: 'Analysis started', status: 'analyzing' })
+    res.json({ message: 'Analysis started', status: 'analyzing', run })
   } catch (error: any) {
     console.error('Analyze repository error:', error)
+
+    if (error.message === 'Analysis already running') {
+      return res.status(409).json({ error: error.message })
+    }
+
+    if (error instanceof GitSecurityError) {
+      return res.status(error.status).json({ error: error.message, code: error.code })
+    }
+
     res.status(500).json({ error: 'Failed to start analysis' })
   }
 })
 
+/**
+ * GET /api/repositories/:id/runs
+ * List analysis runs for a repository
+ */
+router.get('/:id/runs', authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const id = parseInt(req.params.id)
+
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid repository ID' })
+    }
+
+    const runs = await repositoryService.listAnalysisRuns(id, req.user!.userId)
+
+    res.json({ runs })
+  } catch (error: any) {
+    console.error('List analysis runs error:', error)
+
+    if (error.message === 'Repository not found') {
+      return res.status(404).json({ error: error.message })
+    }
+
+    res.status(500).json({ error: 'Failed to list analysis runs' })
+  }
+})
+
+/**
+ * POST /api/repositories/:id/runs/:runId/cancel
+ * Cancel a running analysis
+ */
+router.post('/:id/runs/:runId/cancel', authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const id = parseInt(req.params.id)
+    const runId = parseInt(req.params.runId)
+
+    if (isNaN(id) || isNaN(runId)) {
+      return res.status(400).json({ error: 'Invalid repository or run ID' })
+    }
+
+    const run = await repositoryService.cancelAnalysisRun(id, runId, req.user!.userId)
+
+    res.json({ run })
+  } catch (error: any) {
+    console.error('Cancel analysis run error:', error)
+
+    if (error.message === 'Analysis run not found') {
+      return res.status(404).json({ error: error.message })
+    }
+
+    if (error.message === 'Analysis run is not running') {
+      return res.status(409).json({ error: error.message })
+    }
+
+    res.status(500).json({ error: 'Failed to cancel analysis run' })
+  }
+})
+
+/**
+ * POST /api/repositories/:id/runs/:runId/retry
+ * Retry a failed or cancelled analysis run
+ */
+router.post('/:id/runs/:runId/retry', authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const id = parseInt(req.params.id)
+    const runId = parseInt(req.params.runId)
+
+    if (isNaN(id) || isNaN(runId)) {
+      return res.status(400).json({ error: 'Invalid repository or run ID' })
+    }
+
+    const run = await repositoryService.retryAnalysisRun(id, runId, req.user!.userId)
+
+    res.status(201).json({ run })
+  } catch (error: any) {
+    console.error('Retry analysis run error:', error)
+
+    if (error.message === 'Analysis run not found') {
+      return res.status(404).json({ error: error.message })
+    }
+
+    if (
+      error.message === 'Only failed or cancelled runs can be retried' ||
+      error.message === 'Analysis already running'
+    ) {
+      return res.status(409).json({ error: error.message })
+    }
+
+    if (error instanceof GitSecurityError) {
+      return res.status(error.status).json({ error: error.message, code: error.code })
+    }
+
+    res.status(500).json({ error: 'Failed to retry analysis run' })
+  }
+})
+
+/**
+ * POST /api/repositories/:id/contributors/merge
+ * Merge alias identities into one contributor
+ */
+router.post('/:id/contributors/merge', authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const id = parseInt(req.params.id)
+
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid repository ID' })
+    }
+
+    const { primaryEmail, aliasEmails, name } = req.body
+
+    if (!primaryEmail || !Array.isArray(aliasEmails) || aliasEmails.length === 0) {
+      return res.status(400).json({ error: 'Primary email and alias emails are required' })
+    }
+
+    if (
+      typeof primaryEmail !== 'string' ||
+      !aliasEmails.every((email) => typeof email === 'string') ||
+      (name !== undefined && typeof name !== 'string')
+    ) {
+      return res.status(400).json({ error: 'Emails and name must be strings' })
+    }
+
+    const contributor = await repositoryService.mergeContributors(id, req.user!.userId, {
+      primaryEmail,
+      aliasEmails,
+      name,
+    })
+
+    res.json({ contributor })
+  } catch (error: any) {
+    console.error('Merge contributors error:', error)
+
+    if (error.message === 'Repository not found' || error.message === 'Contributor not found') {
+      return res.status(404).json({ error: error.message })
+    }
+
+    res.status(500).json({ error: 'Failed to merge contributors' })
+  }
+})
+
+/**
+ * GET /api/repositories/:id/contributors/aliases
+ * List contributor alias rules
+ */
+router.get('/:id/contributors/aliases', authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const id = parseInt(req.params.id)
+
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid repository ID' })
+    }
+
+    const aliases = await repositoryService.listContributorAliases(id, req.user!.userId)
+
+    res.json({ aliases })
+  } catch (error: any) {
+    console.error('List contributor aliases error:', error)
+
+    if (error.message === 'Repository not found') {
+      return res.status(404).json({ error: error.message })
+    }
+
+    res.status(500).json({ error: 'Failed to list contributor aliases' })
+  }
+})
+
+/**
+ * DELETE /api/repositories/:id/contributors/aliases/:aliasId
+ * Delete a contributor alias rule
+ */
+router.delete(
+  '/:id/contributors/aliases/:aliasId',
+  authMiddleware,
+  async (req: AuthRequest, res) => {
+    try {
+      const id = parseInt(req.params.id)
+      const aliasId = parseInt(req.params.aliasId)
+
+      if (isNaN(id) || isNaN(aliasId)) {
+        return res.status(400).json({ error: 'Invalid repository or alias ID' })
+      }
+
+      await repositoryService.deleteContributorAlias(id, aliasId, req.user!.userId)
+
+      res.json({ message: 'Alias deleted successfully' })
+    } catch (error: any) {
+      console.error('Delete contributor alias error:', error)
+
+      if (error.message === 'Alias not found') {
+        return res.status(404).json({ error: error.message })
+      }
+
+      res.status(500).json({ error: 'Failed to delete contributor alias' })
+    }
+  }
+)
+
 /**
  * DELETE /api/repositories/:id
  * Delete a repository
@@ -0,0 +1,31 @@
+import { advisoryService } from '../services/advisoryService'
+
+/**
+ * Import OSV advisories from a local file or directory and re-match every repository.
+ * Meant to run on a schedule after syncing the advisory database to disk:
+ *
+ *   npm run advisories:import -- /path/to/osv
+ */
+async function main() {
+  const sourcePath = process.argv[2] || process.env.OSV_DATABASE_PATH
+  if (!sourcePath) {
+    throw new Error('Pass the advisory path as an argument or set OSV_DATABASE_PATH')
+  }
+
+  console.log(`Importing advisories from ${sourcePath}`)
+  const result = await advisoryService.importAdvisories(sourcePath)
+  console.log(
+    `Read ${result.files} files: ${result.imported} imported, ${result.skipped} unchanged, ` +
+      `${result.failed} failed`
+  )
+
+  const repositories = await advisoryService.matchAllRepositories()
+  console.log(`Re-matched dependencies of ${repositories} repositories`)
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error('Advisory import failed:', error)
+    process.exit(1)
+  })
@@ -0,0 +1,235 @@
+import * as path from 'path'
+import * as fs from 'fs/promises'
+import { Prisma } from '@prisma/client'
+import { prisma } from '../prisma'
+import { isExactVersion } from '../utils/sbom'
+import {
+  OsvRecord,
+  StoredAffected,
+  advisorySeverity,
+  matchAffected,
+  normalizePackageName,
+  parseAffected,
+} from '../utils/osv'
+
+export interface AdvisoryImportResult {
+  files: number
+  imported: number
+  skipped: number
+  failed: number
+}
+
+/**
+ * Vulnerability advisories from a local OSV database, imported from disk on a schedule
+ * and matched against the dependencies found by analysis. Nothing here calls out to
+ * external services.
+ */
+export class AdvisoryService {
+  /**
+   * Import OSV records from a JSON file (one record or an array) or a directory of them.
+   * Records not modified since their last import are skipped.
+   */
+  async importAdvisories(sourcePath: string): Promise<AdvisoryImportResult> {
+    const result: AdvisoryImportResult = { files: 0, imported: 0, skipped: 0, failed: 0 }
+
+    const existing = new Map(
+      (await prisma.advisory.findMany({ select: { id: true, modifiedAt: true } })).map((a) => [
+        a.id,
+        a.modifiedAt.getTime(),
+      ])
+    )
+
+    for await (const filePath of this.listJsonFiles(sourcePath)) {
+      result.files++
+
+      let records: OsvRecord[]
+      try {
+        const parsed = JSON.parse(await fs.readFile(filePath, 'utf-8'))
+        records = Array.isArray(parsed) ? parsed : [parsed]
+      } catch (error: any) {
+        console.error(`Failed to read advisories from ${filePath}:`, error.message)
+        result.failed++
+        continue
+      }
+
+      for (const record of records) {
+        if (!record?.id || !record.modified) {
+          result.failed++
+          continue
+        }
+
+        if (existing.get(record.id) === new Date(record.modified).getTime()) {
+          result.skipped++
+          continue
+        }
+
+        try {
+          await this.saveAdvisory(record)
+          result.imported++
+        } catch (error: any) {
+          console.error(`Failed to import advisory ${record.id}:`, error.message)
+          result.failed++
+        }
+      }
+    }
+
+    return result
+  }
+
+  private async *listJsonFiles(sourcePath: string): AsyncGenerator<string> {
+    const stats = await fs.stat(sourcePath)
+    if (!stats.isDirectory()) {
+      yield sourcePath
+      return
+    }
+
+    const entries = await fs.readdir(sourcePath, { withFileTypes: true })
+    for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+      const entryPath = path.join(sourcePath, entry.name)
+      if (entry.isDirectory()) {
+        yield* this.listJsonFiles(entryPath)
+      } else if (entry.name.endsWith('.json')) {
+        yield entryPath
+      }
+    }
+  }
+
+  private async saveAdvisory(record: OsvRecord) {
+    const { severity, score } = advisorySeverity(record)
+    // Only what matching needs is kept; the database-specific extras are free-form
+    const affected: StoredAffected[] = (record.affected || []).map((entry) => ({
+      package: entry.package,
+      ranges: entry.ranges,
+      versions: entry.versions,
+    }))
+
+    const data = {
+      aliases: record.aliases || [],
+      summary: record.summary || null,
+      details: record.details || null,
+      severity,
+      cvssScore: score,
+      affected: affected satisfies Prisma.InputJsonValue,
+      references: (record.references || []) satisfies Prisma.InputJsonValue,
+      publishedAt: record.published ? new Date(record.published) : null,
+      modifiedAt: new Date(record.modified),
+      withdrawnAt: record.withdrawn ? new Date(record.withdrawn) : null,
+    }
+
+    // `Maven:https://repo.example` style ecosystems are keyed by their base name
+    const packages = new Map<string, { ecosystem: string; name: string }>()
+    for (const entry of affected) {
+      if (!entry.package) continue
+      const ecosystem = entry.package.ecosystem.split(':')[0]
+      const name = normalizePackageName(ecosystem, entry.package.name)
+      packages.set(`${ecosystem}\0${name}`, { ecosystem, name })
+    }
+
+    await prisma.$transaction([
+      prisma.advisory.upsert({
+        where: { id: record.id },
+        create: { id: record.id, ...data },
+        update: data,
+      }),
+      prisma.advisoryPackage.deleteMany({ where: { advisoryId: record.id } }),
+      prisma.advisoryPackage.createMany({
+        data: [...packages.values()].map((pkg) => ({ ...pkg, advisoryId: record.id })),
+      }),
+    ])
+  }
+
+  /**
+   * Match a repository's dependencies against the imported advisories, replacing
+   * earlier matches. Dependencies with only a version range cannot be matched.
+   */
+  async matchRepository(repositoryId: number): Promise<number> {
+    const dependencies = await prisma.dependency.findMany({ where: { repositoryId } })
+    const pinned = dependencies.filter((dependency) => isExactVersion(dependency.version))
+
+    if (pinned.length === 0) {
+      await prisma.vulnerability.deleteMany({ where: { repositoryId } })
+      return 0
+    }
+
+    const advisoryPackages = await prisma.advisoryPackage.findMany({
+      where: {
+        advisory: { withdrawnAt: null },
+        OR: pinned.map((dependency) => ({
+          ecosystem: dependency.ecosystem,
+          name: normalizePackageName(dependency.ecosystem, dependency.name),
+        })),
+      },
+      include: { advisory: { select: { id: true, severity: true, affected: true } } },
+    })
+
+    type MatchableAdvisory = { id: string; severity: string | null; affected: StoredAffected[] }
+    const advisoriesByPackage = new Map<string, MatchableAdvisory[]>()
+    for (const pkg of advisoryPackages) {
+      const affected = parseAffected(pkg.advisory.affected)
+      if (!affected) {
+        console.error(`Skipping advisory ${pkg.advisory.id} with malformed affected entries`)
+        continue
+      }
+
+      const key = `${pkg.ecosystem}\0${pkg.name}`
+      const advisory = { ...pkg.advisory, affected }
+      const advisories = advisoriesByPackage.get(key)
+      if (advisories) advisories.push(advisory)
+      else advisoriesByPackage.set(key, [advisory])
+    }
+
+    const rows: {
+      severity: string | null
+      fixedVersion: string | null
+      dependencyId: number
+      advisoryId: string
+      repositoryId: number
+    }[] = []
+
+    for (const dependency of pinned) {
+      const name = normalizePackageName(dependency.ecosystem, dependency.name)
+      for (const advisory of advisoriesByPackage.get(`${dependency.ecosystem}\0${name}`) || []) {
+        const match = matchAffected(advisory.affected, {
+          ecosystem: dependency.ecosystem,
+          name,
+          version: dependency.version!,
+        })
+
+        if (match) {
+          rows.push({
+            severity: advisory.severity,
+            fixedVersion: match.fixedVersion,
+            dependencyId: dependency.id,
+            advisoryId: advisory.id,
+            repositoryId,
+          })
+        }
+      }
+    }
+
+    await prisma.$transaction([
+      prisma.vulnerability.deleteMany({ where: { repositoryId } }),
+      prisma.vulnerability.createMany({ data: rows, skipDuplicates: true }),
+    ])
+
+    return rows.length
+  }
+
+  /**
+   * Re-match every analyzed repository, e.g. after importing new advisories
+   */
+  async matchAllRepositories(): Promise<number> {
+    const repositories = await prisma.repository.findMany({
+      where: { dependencies: { some: {} } },
+      select: { id: true },
+    })
+
+    for (const repository of repositories) {
+      await this.matchRepository(repository.id)
+    }
+
+    return repositories.length
+  }
+}
+
+export const advisoryService = new AdvisoryService()
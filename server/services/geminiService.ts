@@ -13,6 +13,13 @@ export interface AIAnalysisRequest {
     commits?: Array<{ message: string; author: string; date: string }>;
     languages?: Array<{ name: string; percentage: number }>;
     contributors?: Array<{ name: string; commits: number }>;
+    vulnerabilities?: Array<{
+      advisoryId: string;
+      package: string;
+      version: string | null;
+      severity: string | null;
+      fixedVersion: string | null;
+    }>;
   };
 }
 
@@ -195,15 +202,29 @@ Analyze the code quality of this repository:
 
 Provide actionable insights.`;
 
-      case "security":
-        return `${baseContext}
-
+      case "security": {
+        const vulnerabilities = context?.vulnerabilities?.length
+          ? `
+Known vulnerable dependencies (from advisory matching):
+${context.vulnerabilities
+  .map(
+    (v) =>
+      `- ${v.package}@${v.version || "?"}: ${v.advisoryId} (${
+        v.severity || "unknown severity"
+      }${v.fixedVersion ? `, fixed in ${v.fixedVersion}` : ""})`
+  )
+  .join("\n")}
+`
+          : "";
+
+        return `${baseContext}${vulnerabilities}
 Perform a security analysis:
 1. Potential security vulnerabilities
 2. Dependencies that may need updates
 3. Authentication and authorization patterns
 4. Data handling practices
 5. Security best practices recommendations`;
+      }
 
       case "architecture":
         return `${baseContext}
@@ -0,0 +1,271 @@
+import { execFile, spawn, ChildProcessWithoutNullStreams } from 'child_process'
+import * as path from 'path'
+import { listFromEnv } from '../utils/repositoryUtils'
+
+/**
+ * Base class for git calls rejected by the runner's safety checks.
+ * `status` is the HTTP status routes should answer with.
+ */
+export class GitSecurityError extends Error {
+  status: number
+  code: string
+
+  constructor(message: string, code: string, status: number) {
+    super(message)
+    this.name = 'GitSecurityError'
+    this.code = code
+    this.status = status
+  }
+}
+
+export class GitUrlNotAllowedError extends GitSecurityError {
+  constructor(reason: string) {
+    super(`Repository URL not allowed: ${reason}`, 'URL_NOT_ALLOWED', 400)
+    this.name = 'GitUrlNotAllowedError'
+  }
+}
+
+export class GitTimeoutError extends GitSecurityError {
+  constructor(command: string, timeoutMs: number) {
+    super(`git ${command} timed out after ${timeoutMs}ms`, 'GIT_TIMEOUT', 408)
+    this.name = 'GitTimeoutError'
+  }
+}
+
+export class GitOutputLimitError extends GitSecurityError {
+  constructor(command: string, maxBytes: number) {
+    super(`git ${command} produced more than ${maxBytes} bytes of output`, 'OUTPUT_TOO_LARGE', 413)
+    this.name = 'GitOutputLimitError'
+  }
+}
+
+export class GitRepositoryTooLargeError extends GitSecurityError {
+  constructor(maxBytes: number) {
+    super(`Repository exceeds the maximum clone size of ${maxBytes} bytes`, 'REPO_TOO_LARGE', 413)
+    this.name = 'GitRepositoryTooLargeError'
+  }
+}
+
+/**
+ * The git subcommand in an argument list, past global options such as `--git-dir=...`
+ */
+function gitCommand(args: string[]): string {
+  for (let i = 0; i < args.length; i++) {
+    // Global options that take their value as a separate argument
+    if (args[i] === '-c' || args[i] === '-C') {
+      i++
+    } else if (!args[i].startsWith('-')) {
+      return args[i]
+    }
+  }
+  return args[0]
+}
+
+export const gitLimits = {
+  // URL schemes and hosts repositories may be cloned from; '*' allows any host
+  allowedSchemes: listFromEnv(process.env.GIT_ALLOWED_SCHEMES?.toLowerCase(), ['https']),
+  allowedHosts: listFromEnv(process.env.GIT_ALLOWED_HOSTS?.toLowerCase(), [
+    'github.com',
+    'gitlab.com',
+    'bitbucket.org',
+  ]),
+  // file:// URLs and local paths, e.g. for a directory of fixture repos
+  allowLocal: process.env.GIT_ALLOW_LOCAL === 'true',
+  timeoutMs: parseInt(process.env.GIT_TIMEOUT_MS || '') || 2 * 60 * 1000,
+  cloneTimeoutMs: parseInt(process.env.GIT_CLONE_TIMEOUT_MS || '') || 15 * 60 * 1000,
+  maxRepoBytes: parseInt(process.env.GIT_MAX_REPO_BYTES || '') || 2 * 1024 * 1024 * 1024,
+  maxOutputBytes: parseInt(process.env.GIT_MAX_OUTPUT_BYTES || '') || 256 * 1024 * 1024,
+}
+
+/**
+ * Reject repository URLs outside the configured schemes and hosts.
+ * Transport helpers (`ext::`), `file://` URLs and local paths are refused unless local
+ * repositories are explicitly enabled.
+ */
+export function assertRepositoryUrlAllowed(url: string) {
+  if (typeof url !== 'string' || !url.trim()) {
+    throw new GitUrlNotAllowedError('URL is empty')
+  }
+
+  if (url.startsWith('-')) {
+    throw new GitUrlNotAllowedError('URL must not start with "-"')
+  }
+
+  if (/^[a-z][a-z0-9+.-]*::/i.test(url)) {
+    throw new GitUrlNotAllowedError('transport helper URLs are not supported')
+  }
+
+  const isLocal = url.startsWith('file://') || path.isAbsolute(url) || url.startsWith('.')
+  if (isLocal) {
+    if (!gitLimits.allowLocal) {
+      throw new GitUrlNotAllowedError('local repositories are disabled')
+    }
+    return
+  }
+
+  let parsed: URL
+  try {
+    parsed = new URL(url)
+  } catch {
+    // scp-like "user@host:path" syntax lands here as well
+    throw new GitUrlNotAllowedError('URL could not be parsed')
+  }
+
+  const scheme = parsed.protocol.replace(/:$/, '').toLowerCase()
+  if (!gitLimits.allowedSchemes.includes(scheme)) {
+    throw new GitUrlNotAllowedError(`scheme "${scheme}" is not allowed`)
+  }
+
+  const host = parsed.hostname.toLowerCase()
+  if (!gitLimits.allowedHosts.includes('*') && !gitLimits.allowedHosts.includes(host)) {
+    throw new GitUrlNotAllowedError(`host "${host}" is not allowed`)
+  }
+}
+
+/**
+ * Environment for every git process: no prompts, no system config and only
+ * allow-listed transports, which also covers submodules. HTTP redirects are not followed,
+ * since they could lead to a host outside the allow-list.
+ */
+function gitEnv(): NodeJS.ProcessEnv {
+  const protocols = [...gitLimits.allowedSchemes]
+  if (gitLimits.allowLocal) protocols.push('file')
+
+  return {
+    ...process.env,
+    GIT_TERMINAL_PROMPT: '0',
+    GIT_ASKPASS: 'echo',
+    GIT_CONFIG_NOSYSTEM: '1',
+    GIT_ALLOW_PROTOCOL: protocols.join(':'),
+    GIT_CONFIG_COUNT: '1',
+    GIT_CONFIG_KEY_0: 'http.followRedirects',
+    GIT_CONFIG_VALUE_0: 'false',
+  }
+}
+
+export interface RunGitOptions {
+  cwd?: string
+  timeoutMs?: number
+  maxOutputBytes?: number
+}
+
+/**
+ * Run git with an argument array (no shell) and collect its output
+ */
+export function runGit(
+  args: string[],
+  options: RunGitOptions = {}
+): Promise<{ stdout: string; stderr: string }> {
+  const timeoutMs = options.timeoutMs ?? gitLimits.timeoutMs
+  const maxBuffer = options.maxOutputBytes ?? gitLimits.maxOutputBytes
+
+  return new Promise((resolve, reject) => {
+    execFile(
+      'git',
+      args,
+      { cwd: options.cwd, env: gitEnv(), timeout: timeoutMs, maxBuffer, killSignal: 'SIGKILL' },
+      (error: any, stdout, stderr) => {
+        if (!error) {
+          return resolve({ stdout, stderr })
+        }
+
+        if (error.code === 'ERR_CHILD_PROCESS_STDIO_MAXBUFFER') {
+          return reject(new GitOutputLimitError(gitCommand(args), maxBuffer))
+        }
+
+        if (error.killed && error.signal === 'SIGKILL') {
+          return reject(new GitTimeoutError(gitCommand(args), timeoutMs))
+        }
+
+        error.message = stderr.trim() || error.message
+        reject(error)
+      }
+    )
+  })
+}
+
+/**
+ * Start git with an argument array (no shell) for streaming output.
+ * The process is killed once the timeout elapses.
+ */
+export function spawnGit(
+  args: string[],
+  options: { cwd?: string; timeoutMs?: number } = {}
+): { child: ChildProcessWithoutNullStreams; timedOut: () => GitTimeoutError | null } {
+  const timeoutMs = options.timeoutMs ?? gitLimits.timeoutMs
+  const child = spawn('git', args, { cwd: options.cwd, env: gitEnv() })
+
+  let timeoutError: GitTimeoutError | null = null
+  const timer = setTimeout(() => {
+    timeoutError = new GitTimeoutError(gitCommand(args), timeoutMs)
+    child.kill('SIGKILL')
+  }, timeoutMs)
+  child.on('close', () => clearTimeout(timer))
+
+  return { child, timedOut: () => timeoutError }
+}
+
+/**
+ * Run a clone or fetch, killing it once `watchPath` grows past the maximum repository size
+ */
+export async function runGitWithSizeLimit(
+  args: string[],
+  watchPath: string,
+  options: RunGitOptions = {}
+): Promise<{ stdout: string; stderr: string }> {
+  let tooLarge = false
+  const { child, timedOut } = spawnGit(args, {
+    cwd: options.cwd,
+    timeoutMs: options.timeoutMs ?? gitLimits.cloneTimeoutMs,
+  })
+
+  let stdout = ''
+  let stderr = ''
+  child.stdout.setEncoding('utf8')
+  child.stderr.setEncoding('utf8')
+  child.stdout.on('data', (chunk: string) => (stdout += chunk))
+  child.stderr.on('data', (chunk: string) => (stderr += chunk))
+
+  // Each check is scheduled once the previous `du` returns, so slow disks never stack them up
+  let watcher: NodeJS.Timeout | undefined
+  let finished = false
+  const watch = () => {
+    watcher = setTimeout(async () => {
+      if ((await diskUsage(watchPath)) > gitLimits.maxRepoBytes) {
+        tooLarge = true
+        child.kill('SIGKILL')
+      } else if (!finished) {
+        watch()
+      }
+    }, 2000)
+  }
+  watch()
+
+  try {
+    const code = await new Promise<number | null>((resolve, reject) => {
+      child.on('error', reject)
+      child.on('close', resolve)
+    })
+
+    if (tooLarge) throw new GitRepositoryTooLargeError(gitLimits.maxRepoBytes)
+    const timeoutError = timedOut()
+    if (timeoutError) throw timeoutError
+    if (code !== 0) throw new Error(stderr.trim() || `git ${gitCommand(args)} exited with code ${code}`)
+
+    return { stdout, stderr }
+  } finally {
+    finished = true
+    clearTimeout(watcher)
+  }
+}
+
+/**
+ * Bytes used on disk by a directory, or 0 if it does not exist
+ */
+export function diskUsage(dir: string): Promise<number> {
+  return new Promise((resolve) => {
+    execFile('du', ['-sb', dir], (error, stdout) => {
+      resolve(error ? 0 : parseInt(stdout.split('\t')[0]) || 0)
+    })
+  })
+}
@@ -1,9 +1,11 @@
-import { exec } from 'child_process'
-import { promisify } from 'util'
 import * as path from 'path'
 import * as fs from 'fs/promises'
-
-const execPromise = promisify(exec)
+import { createReadStream } from 'fs'
+import { runGit, spawnGit, GitSecurityError } from './gitRunner'
+import { classifyFile, isVendoredPath, LinguistAttributes } from '../utils/linguist'
+import { analyzeCode, CodeMetrics } from '../utils/codeMetrics'
+import { isManifestPath } from '../utils/dependencies'
+import { isLicenseFilePath } from '../utils/licenses'
 
 export interface CommitData {
   hash: string
@@ -12,7 +14,10 @@ export interface CommitData {
   description?: string
   authorName: string
   authorEmail: string
+  originalAuthorName?: string // Identity from git when an alias rule replaced it
+  originalAuthorEmail?: string
   committedAt: Date
+  timezoneOffset: number // Author's UTC offset in minutes
   branch: string
   additions: number
   deletions: number
@@ -20,19 +25,38 @@ export interface CommitData {
   fileChanges: FileChangeData[]
 }
 
+export type FileChangeType = 'added' | 'modified' | 'deleted' | 'renamed' | 'copied'
+
 export interface FileChangeData {
   path: string
+  oldPath?: string // Source path for renames and copies
   additions: number
   deletions: number
-  changeType: 'added' | 'modified' | 'deleted'
+  changeType: FileChangeType
 }
 
 export interface BranchData {
   name: string
+  headHash: string
   isDefault: boolean
   isProtected: boolean
   commitCount: number
   lastCommitAt: Date
+  aheadCount: number
+  behindCount: number
+  isMerged: boolean
+  firstCommitAt: Date | null
+  unmergedHashes: string[] // Commits on this branch that the default branch lacks
+}
+
+export interface TagData {
+  name: string
+  targetHash: string
+  isAnnotated: boolean
+  message?: string
+  taggerName?: string
+  taggerEmail?: string
+  taggedAt: Date
 }
 
 export interface ContributorData {
@@ -45,31 +69,284 @@ export interface ContributorData {
   lastCommit: Date
 }
 
-export interface LanguageData {
+export interface BlameData {
+  name: string
+  email: string
+  lines: number
+}
+
+export interface LineBlameData {
+  hash: string
+  name: string
+  email: string
+  committedAt: Date
+}
+
+export interface AddedLinesData {
+  hash: string
+  path: string
+  lines: { line: number; text: string }[] // Added lines with their line numbers after the commit
+}
+
+export interface FileData {
+  path: string
   name: string
-  percentage: number
-  bytes: number
+  size: number
+  extension: string | null
   lines: number
+  language: string | null
+  isVendored: boolean
+  isGenerated: boolean
+  metrics: CodeMetrics | null // Static code metrics for supported languages
+}
+
+export interface TreeFile {
+  path: string
+  size: number
+  content: string | null // Null for binary files and files too large to read
+}
+
+// Largest file read into memory and measured
+const MAX_READ_BYTES = 1024 * 1024
+
+/**
+ * Every commit reachable from a branch, with its parents and committer time
+ */
+interface CommitGraph {
+  heads: Map<string, string> // Branch name to head hash
+  parents: Map<string, string[]>
+  timestamps: Map<string, number> // Committer time in Unix seconds
+  generations: Map<string, number> // One more than the highest generation of its parents
+}
+
+/**
+ * Queue of commits that pops descendants before their ancestors
+ */
+class CommitQueue {
+  private heap: string[] = []
+
+  constructor(private generations: Map<string, number>) {}
+
+  push(hash: string) {
+    this.heap.push(hash)
+
+    let i = this.heap.length - 1
+    while (i > 0) {
+      const parent = (i - 1) >> 1
+      if (!this.above(i, parent)) break
+      this.swap(parent, i)
+      i = parent
+    }
+  }
+
+  pop(): string {
+    const top = this.heap[0]
+    const last = this.heap.pop()!
+
+    if (this.heap.length > 0) {
+      this.heap[0] = last
+      let i = 0
+      while (true) {
+        let highest = i
+        for (const child of [2 * i + 1, 2 * i + 2]) {
+          if (child < this.heap.length && this.above(child, highest)) highest = child
+        }
+        if (highest === i) break
+        this.swap(highest, i)
+        i = highest
+      }
+    }
+
+    return top
+  }
+
+  private above(i: number, j: number): boolean {
+    return this.generations.get(this.heap[i])! > this.generations.get(this.heap[j])!
+  }
+
+  private swap(i: number, j: number) {
+    const hash = this.heap[i]
+    this.heap[i] = this.heap[j]
+    this.heap[j] = hash
+  }
+}
+
+/**
+ * Commits reachable only from `left` and only from `right`, as `git rev-list left...right`
+ * lists them. Both sides are painted down the graph in generation order, which unlike commit
+ * dates cannot be skewed, until every queued commit is reachable from both; the cost follows
+ * the size of the divergence rather than of the whole history.
+ */
+function divergence(
+  graph: CommitGraph,
+  left: string,
+  right: string
+): { leftOnly: string[]; rightOnly: string[] } {
+  const LEFT = 1
+  const RIGHT = 2
+  const BOTH = LEFT | RIGHT
+
+  const flags = new Map<string, number>()
+  const queue = new CommitQueue(graph.generations)
+  // Queued commits not yet known to be reachable from both sides
+  let pending = 0
+
+  const paint = (hash: string, flag: number) => {
+    if (!graph.parents.has(hash)) return
+
+    const previous = flags.get(hash) || 0
+    const next = previous | flag
+    if (next === previous) return
+    flags.set(hash, next)
+
+    // Descendants are popped first, so a painted commit is still queued until its flags are final
+    if (previous === 0) {
+      queue.push(hash)
+      if (next !== BOTH) pending++
+    } else if (next === BOTH) {
+      pending--
+    }
+  }
+
+  paint(left, LEFT)
+  paint(right, RIGHT)
+
+  while (pending > 0) {
+    const hash = queue.pop()
+    const flag = flags.get(hash)!
+    if (flag !== BOTH) pending--
+
+    for (const parent of graph.parents.get(hash)!) {
+      paint(parent, flag)
+    }
+  }
+
+  const leftOnly: string[] = []
+  const rightOnly: string[] = []
+  for (const [hash, flag] of flags) {
+    if (flag === LEFT) leftOnly.push(hash)
+    if (flag === RIGHT) rightOnly.push(hash)
+  }
+
+  return { leftOnly, rightOnly }
+}
+
+/**
+ * Number of commits reachable from a commit, itself included
+ */
+function countReachable(graph: CommitGraph, head: string): number {
+  const seen = new Set<string>()
+  const stack = [head]
+
+  while (stack.length > 0) {
+    const hash = stack.pop()!
+    if (seen.has(hash) || !graph.parents.has(hash)) continue
+    seen.add(hash)
+    stack.push(...graph.parents.get(hash)!)
+  }
+
+  return seen.size
+}
+
+/**
+ * UTC offset in minutes of a strict ISO 8601 date such as `2024-01-05T14:03:00+02:00`
+ */
+function parseTimezoneOffset(date: string): number {
+  const match = date.match(/([+-])(\d{2}):?(\d{2})$/)
+  if (!match) return 0
+
+  const minutes = parseInt(match[2]) * 60 + parseInt(match[3])
+  return match[1] === '-' ? -minutes : minutes
 }
 
 export class GitService {
   private repoPath: string
+  private mirrorPath: string
+  private commitGraph: Promise<CommitGraph> | null = null
 
-  constructor(repoPath: string) {
+  constructor(repoPath: string, mirrorPath: string) {
     this.repoPath = repoPath
+    this.mirrorPath = mirrorPath
   }
 
   /**
-   * Clone a repository to a temporary directory
+   * Check out the default branch of a bare mirror into a temporary worktree
    */
-  static async cloneRepository(url: string, destination: string): Promise<GitService> {
+  static async fromMirror(mirrorPath: string, destination: string): Promise<GitService> {
     try {
-      await fs.mkdir(destination, { recursive: true })
-      await execPromise(`git clone --depth 1000 "${url}" "${destination}"`)
-      return new GitService(destination)
+      await fs.mkdir(path.dirname(destination), { recursive: true })
+      await runGit([
+        `--git-dir=${mirrorPath}`,
+        'worktree',
+        'add',
+        '--detach',
+        '--quiet',
+        '--end-of-options',
+        destination,
+        'HEAD',
+      ])
+      return new GitService(destination, mirrorPath)
     } catch (error: any) {
-      throw new Error(`Failed to clone repository: ${error.message}`)
+      if (error instanceof GitSecurityError) throw error
+      throw new Error(`Failed to check out repository: ${error.message}`)
+    }
+  }
+
+  /**
+   * Open a bare mirror for history queries without checking out a worktree
+   */
+  static openMirror(mirrorPath: string): GitService {
+    return new GitService(mirrorPath, mirrorPath)
+  }
+
+  /**
+   * Resolve a branch name to its ref in the mirror
+   */
+  private branchRef(branch: string): string {
+    return branch === 'HEAD' ? 'HEAD' : `refs/heads/${branch}`
+  }
+
+  /**
+   * Load every branch's history with a single walk, reused for the lifetime of the service
+   */
+  private loadCommitGraph(): Promise<CommitGraph> {
+    if (!this.commitGraph) {
+      this.commitGraph = this.readCommitGraph()
     }
+    return this.commitGraph
+  }
+
+  private async readCommitGraph(): Promise<CommitGraph> {
+    // Fields are NUL-separated since `|` may appear in branch names
+    const { stdout: refs } = await runGit(
+      ['for-each-ref', '--format=%(refname:lstrip=2)%00%(objectname)', 'refs/heads/'],
+      { cwd: this.repoPath }
+    )
+    const heads = new Map(
+      refs
+        .split('\n')
+        .filter(Boolean)
+        .map((line) => line.split('\0') as [string, string])
+    )
+
+    // Each line is "<committer time> <hash> <parent>...", children before their parents
+    const { stdout: log } = await runGit(
+      ['rev-list', '--branches', '--topo-order', '--parents', '--timestamp'],
+      { cwd: this.repoPath }
+    )
+    const lines = log.split('\n').filter(Boolean)
+    const parents = new Map<string, string[]>()
+    const timestamps = new Map<string, number>()
+    const generations = new Map<string, number>()
+
+    for (let i = lines.length - 1; i >= 0; i--) {
+      const [time, hash, ...rest] = lines[i].split(' ')
+      parents.set(hash, rest)
+      timestamps.set(hash, parseInt(time))
+      generations.set(hash, 1 + Math.max(0, ...rest.map((parent) => generations.get(parent)!)))
+    }
+
+    return { heads, parents, timestamps, generations }
   }
 
   /**
@@ -77,173 +354,472 @@ export class GitService {
    */
   async getBranches(): Promise<BranchData[]> {
     try {
-      const { stdout: defaultBranch } = await execPromise(
-        `cd "${this.repoPath}" && git symbolic-ref refs/remotes/origin/HEAD | sed 's@^refs/remotes/origin/@@'`
-      )
+      // The worktree is detached, so the default branch is read from the mirror's HEAD
+      const { stdout: defaultBranch } = await runGit([
+        `--git-dir=${this.mirrorPath}`,
+        'symbolic-ref',
+        '--short',
+        'HEAD',
+      ])
       const defaultBranchName = defaultBranch.trim()
 
-      const { stdout } = await execPromise(
-        `cd "${this.repoPath}" && git for-each-ref --format='%(refname:short)|%(committerdate:iso)|%(objectname)' refs/heads/`
-      )
+      const graph = await this.loadCommitGraph()
+      const defaultHead = graph.heads.get(defaultBranchName)
+      const defaultCount = defaultHead ? countReachable(graph, defaultHead) : 0
 
       const branches: BranchData[] = []
-      const lines = stdout.trim().split('\n').filter(Boolean)
 
-      for (const line of lines) {
-        const [name, date, hash] = line.split('|')
+      for (const [name, hash] of graph.heads) {
+        let commitCount = defaultCount
+        let behindCount = 0
+        let unmergedHashes: string[] = []
+
+        if (!defaultHead) {
+          commitCount = countReachable(graph, hash)
+        } else if (name !== defaultBranchName) {
+          // Everything on the default branch it does not lack, plus its own commits
+          const { leftOnly, rightOnly } = divergence(graph, defaultHead, hash)
+          behindCount = leftOnly.length
+          unmergedHashes = rightOnly
+          commitCount = defaultCount - leftOnly.length + rightOnly.length
+        }
 
-        const { stdout: commitCount } = await execPromise(
-          `cd "${this.repoPath}" && git rev-list --count "${name}"`
-        )
+        const firstCommitAt = unmergedHashes.length
+          ? new Date(
+              unmergedHashes.reduce(
+                (min, commit) => Math.min(min, graph.timestamps.get(commit)!),
+                Infinity
+              ) * 1000
+            )
+          : null
 
         branches.push({
           name,
+          headHash: hash,
           isDefault: name === defaultBranchName,
           isProtected: ['main', 'master', 'develop', 'production'].includes(name),
-          commitCount: parseInt(commitCount.trim()),
-          lastCommitAt: new Date(date),
+          commitCount,
+          lastCommitAt: new Date(graph.timestamps.get(hash)! * 1000),
+          aheadCount: unmergedHashes.length,
+          behindCount,
+          isMerged: !!defaultHead && unmergedHashes.length === 0,
+          firstCommitAt,
+          unmergedHashes,
         })
       }
 
       return branches
     } catch (error: any) {
+      if (error instanceof GitSecurityError) throw error
       throw new Error(`Failed to get branches: ${error.message}`)
     }
   }
 
   /**
-   * Get all commits for a specific branch
+   * Check whether a commit exists and is an ancestor of (or equal to) a branch head
    */
-  async getCommits(branch: string = 'HEAD', limit: number = 1000): Promise<CommitData[]> {
+  async isAncestor(commitHash: string, branch: string): Promise<boolean> {
+    const graph = await this.loadCommitGraph()
+    const head = graph.heads.get(branch)
+    if (!head || !graph.parents.has(commitHash)) return false
+
+    return divergence(graph, head, commitHash).rightOnly.length === 0
+  }
+
+  /**
+   * Resolve a branch, tag or commit hash to a full commit hash, or null if it does not exist
+   */
+  async resolveRef(ref: string): Promise<string | null> {
     try {
-      const format = '%H|%h|%an|%ae|%aI|%s|%b'
-      const { stdout } = await execPromise(
-        `cd "${this.repoPath}" && git log --format="${format}" --shortstat -n ${limit} "${branch}"`
+      const { stdout } = await runGit(
+        ['rev-parse', '--verify', '--quiet', '--end-of-options', `${ref}^{commit}`],
+        { cwd: this.repoPath }
       )
+      return stdout.trim() || null
+    } catch {
+      return null
+    }
+  }
 
-      const commits: CommitData[] = []
-
-      // Split by commit hash at the beginning of lines
-      const commitRegex = /^([a-f0-9]{40}\|)/gm
-      const matches = [...stdout.matchAll(commitRegex)]
+  /**
+   * Most recent tag reachable from a commit's parent, i.e. the release before it
+   */
+  async getPreviousTag(commitHash: string): Promise<string | null> {
+    try {
+      const { stdout } = await runGit(
+        ['describe', '--tags', '--abbrev=0', '--end-of-options', `${commitHash}^`],
+        { cwd: this.repoPath }
+      )
+      return stdout.trim() || null
+    } catch {
+      return null
+    }
+  }
 
-      if (matches.length === 0) {
-        console.warn('No commits found in git log output')
-        return []
-      }
+  /**
+   * Get all tags that point at commits, oldest first.
+   * Annotated tags are peeled to their commit and carry the tagger,
+   * lightweight tags use the commit date.
+   */
+  async getTags(): Promise<TagData[]> {
+    try {
+      const format = [
+        '%(refname:strip=2)',
+        '%(objecttype)',
+        '%(objectname)',
+        '%(*objecttype)',
+        '%(*objectname)',
+        '%(taggername)',
+        '%(taggeremail)',
+        '%(taggerdate:iso-strict)',
+        '%(committerdate:iso-strict)',
+        '%(*committerdate:iso-strict)',
+        '%(contents:subject)',
+      ].join('%1f')
+
+      const { stdout } = await runGit(
+        ['for-each-ref', `--format=${format}%1e`, 'refs/tags/'],
+        { cwd: this.repoPath }
+      )
 
-      for (let i = 0; i < matches.length; i++) {
-        const startIndex = matches[i].index!
-        const endIndex = i < matches.length - 1 ? matches[i + 1].index! : stdout.length
-        const block = stdout.substring(startIndex, endIndex).trim()
+      const tags: TagData[] = []
 
-        const lines = block.split('\n').filter(Boolean)
-        if (lines.length === 0) continue
+      for (const record of stdout.split('\x1e')) {
+        const [
+          name,
+          type,
+          hash,
+          peeledType,
+          peeledHash,
+          taggerName,
+          taggerEmail,
+          taggerDate,
+          commitDate,
+          peeledCommitDate,
+          subject,
+        ] = record.replace(/^\n/, '').split('\x1f')
+
+        if (!name) continue
+
+        if (type === 'tag' && peeledType === 'commit') {
+          tags.push({
+            name,
+            targetHash: peeledHash,
+            isAnnotated: true,
+            message: subject || undefined,
+            taggerName: taggerName || undefined,
+            taggerEmail: taggerEmail.replace(/^<|>$/g, '') || undefined,
+            taggedAt: new Date(taggerDate || peeledCommitDate),
+          })
+        } else if (type === 'commit') {
+          tags.push({ name, targetHash: hash, isAnnotated: false, taggedAt: new Date(commitDate) })
+        }
+        // Tags of trees and blobs are not releases
+      }
 
-        const firstLine = lines[0]
-        const parts = firstLine.split('|')
+      return tags.sort((a, b) => a.taggedAt.getTime() - b.taggedAt.getTime())
+    } catch (error: any) {
+      if (error instanceof GitSecurityError) throw error
+      throw new Error(`Failed to get tags: ${error.message}`)
+    }
+  }
 
-        if (parts.length < 6) {
-          console.warn('Skipping commit with insufficient fields')
-          continue
-        }
+  /**
+   * Hashes of all commits reachable from `to` but not from `from`
+   */
+  async getRevisions(from: string | null, to: string): Promise<string[]> {
+    try {
+      const revisions = from ? [to, `^${from}`] : [to]
+      const { stdout } = await runGit(['rev-list', '--end-of-options', ...revisions], {
+        cwd: this.repoPath,
+      })
+      return stdout.split('\n').filter(Boolean)
+    } catch (error: any) {
+      if (error instanceof GitSecurityError) throw error
+      throw new Error(`Failed to list revisions: ${error.message}`)
+    }
+  }
 
-        const [hash, shortHash, authorName, authorEmail, date, message, ...descParts] = parts
+  /**
+   * Non-merge commits reachable from `to` but not from `from`, newest first, without file changes
+   */
+  async getCommitsBetween(from: string | null, to: string): Promise<CommitData[]> {
+    try {
+      const format = '%x1e%H%x1f%h%x1f%aN%x1f%aE%x1f%aI%x1f%s%x1f%b%x1f'
+      const revisions = from ? [to, `^${from}`] : [to]
+      const { stdout } = await runGit(
+        ['log', '--no-merges', `--format=${format}`, '--end-of-options', ...revisions],
+        { cwd: this.repoPath }
+      )
 
-        // Skip if essential fields are missing
-        if (!hash || !authorName || !authorEmail || !date || !message) {
-          console.warn('Skipping commit with missing fields')
-          continue
-        }
+      return stdout
+        .split('\x1e')
+        .map((record) => this.parseCommitRecord(record, to))
+        .filter((commit): commit is CommitData => commit !== null)
+    } catch (error: any) {
+      if (error instanceof GitSecurityError) throw error
+      throw new Error(`Failed to get commits: ${error.message}`)
+    }
+  }
 
-        const description = descParts.join('|').trim() || undefined
-        const statsLine = lines.find((l) => l.includes('changed') || l.includes('file'))
-
-        let additions = 0
-        let deletions = 0
-        let filesChanged = 0
-
-        if (statsLine) {
-          const match = statsLine.match(
-            /(\d+) files? changed(?:, (\d+) insertions?\(\+\))?(?:, (\d+) deletions?\(-\))?/
-          )
-          if (match) {
-            filesChanged = parseInt(match[1])
-            additions = match[2] ? parseInt(match[2]) : 0
-            deletions = match[3] ? parseInt(match[3]) : 0
-          }
-        }
+  /**
+   * Get all commits for a specific branch.
+   * When `since` is given, only commits reachable from the branch but not from `since` are returned.
+   */
+  async getCommits(
+    branch: string = 'HEAD',
+    limit: number = 1000,
+    since?: string
+  ): Promise<CommitData[]> {
+    try {
+      const commits: CommitData[] = []
 
-        // Get file changes for this commit
-        const fileChanges = await this.getFileChanges(hash)
-
-        commits.push({
-          hash: hash.trim(),
-          shortHash: shortHash?.trim() || hash.substring(0, 7),
-          message: message.trim(),
-          description,
-          authorName: authorName.trim(),
-          authorEmail: authorEmail.trim(),
-          committedAt: new Date(date.trim()),
-          branch,
-          additions,
-          deletions,
-          filesChanged,
-          fileChanges,
-        })
+      for await (const commit of this.streamCommits(branch, limit, since)) {
+        commits.push(commit)
       }
 
       return commits
     } catch (error: any) {
+      if (error instanceof GitSecurityError) throw error
       throw new Error(`Failed to get commits: ${error.message}`)
     }
   }
 
   /**
-   * Get file changes for a specific commit
+   * Stream commits with their file changes from a single `git log` process, all of them
+   * when `limit` is null.
+   * Each record starts with a record separator, header fields are split by unit separators,
+   * and the NUL-separated raw/numstat output for the commit follows the header.
+   */
+  async *streamCommits(
+    branch: string = 'HEAD',
+    limit: number | null = 1000,
+    since?: string
+  ): AsyncGenerator<CommitData> {
+    const ref = this.branchRef(branch)
+    const revision = since ? `${since}..${ref}` : ref
+    // %aN/%aE apply the repository's .mailmap
+    const format = '%x1e%H%x1f%h%x1f%aN%x1f%aE%x1f%aI%x1f%s%x1f%b%x1f'
+
+    const args = ['log', '-z', '--raw', '--numstat', '-M', '-C', `--format=${format}`]
+    const count = limit === null ? [] : ['-n', `${limit}`]
+    const records = this.streamRecords([...args, ...count, '--end-of-options', revision])
+
+    for await (const record of records) {
+      const commit = this.parseCommitRecord(record, branch)
+      if (commit) yield commit
+    }
+  }
+
+  /**
+   * Run git and yield its output split into records that each start with a record separator.
+   * Text before the first separator is yielded as a record of its own.
    */
-  private async getFileChanges(commitHash: string): Promise<FileChangeData[]> {
+  private async *streamRecords(args: string[]): AsyncGenerator<string> {
+    const { child, timedOut } = spawnGit(args, { cwd: this.repoPath })
+
+    let stderr = ''
+    child.stderr.setEncoding('utf8')
+    child.stderr.on('data', (chunk: string) => (stderr += chunk))
+
+    const exited = new Promise<number | null>((resolve, reject) => {
+      child.on('error', reject)
+      child.on('close', resolve)
+    })
+
     try {
-      const { stdout } = await execPromise(
-        `cd "${this.repoPath}" && git show --numstat --format="" "${commitHash}"`
-      )
+      let buffer = ''
+      child.stdout.setEncoding('utf8')
 
-      const changes: FileChangeData[] = []
-      const lines = stdout.trim().split('\n').filter(Boolean)
+      for await (const chunk of child.stdout) {
+        buffer += chunk
+        const records = buffer.split('\x1e')
+        // The last record may still be incomplete
+        buffer = records.pop()!
 
-      for (const line of lines) {
-        const [addStr, delStr, filePath] = line.split('\t')
+        yield* records
+      }
+
+      yield buffer
+
+      const code = await exited
+      const timeoutError = timedOut()
+      if (timeoutError) throw timeoutError
+      if (code !== 0) {
+        throw new Error(stderr.trim() || `git ${args[0]} exited with code ${code}`)
+      }
+    } finally {
+      // Stop git if the consumer bailed out early
+      if (child.exitCode === null) {
+        child.kill()
+      }
+    }
+  }
 
-        // Handle binary files or moved files
-        const additions = addStr === '-' ? 0 : parseInt(addStr)
-        const deletions = delStr === '-' ? 0 : parseInt(delStr)
+  /**
+   * Parse one `streamCommits` record into commit data
+   */
+  private parseCommitRecord(record: string, branch: string): CommitData | null {
+    const fields: string[] = []
+    let offset = 0
+
+    // Seven header fields, each terminated by a unit separator
+    for (let i = 0; i < 7; i++) {
+      const end = record.indexOf('\x1f', offset)
+      if (end === -1) return null
+      fields.push(record.substring(offset, end))
+      offset = end + 1
+    }
 
-        let changeType: 'added' | 'modified' | 'deleted' = 'modified'
-        if (additions > 0 && deletions === 0) changeType = 'added'
-        else if (additions === 0 && deletions > 0) changeType = 'deleted'
+    const [hash, shortHash, authorName, authorEmail, date, message, body] = fields
 
-        changes.push({
-          path: filePath,
-          additions,
-          deletions,
-          changeType,
-        })
+    // Skip if essential fields are missing
+    if (!hash || !authorName || !authorEmail || !date) {
+      console.warn('Skipping commit with missing fields')
+      return null
+    }
+
+    const fileChanges = this.parseFileChanges(record.substring(offset))
+
+    return {
+      hash,
+      shortHash: shortHash || hash.substring(0, 7),
+      message: message.trim(),
+      description: body.trim() || undefined,
+      authorName: authorName.trim(),
+      authorEmail: authorEmail.trim(),
+      committedAt: new Date(date),
+      timezoneOffset: parseTimezoneOffset(date),
+      branch,
+      additions: fileChanges.reduce((sum, change) => sum + change.additions, 0),
+      deletions: fileChanges.reduce((sum, change) => sum + change.deletions, 0),
+      filesChanged: fileChanges.length,
+      fileChanges,
+    }
+  }
+
+  /**
+   * Parse NUL-separated `--raw --numstat` output into file changes.
+   * Raw entries carry the change status and rename/copy source, numstat entries the line counts.
+   */
+  private parseFileChanges(output: string): FileChangeData[] {
+    const statusTypes: Record<string, FileChangeType> = {
+      A: 'added',
+      M: 'modified',
+      T: 'modified',
+      D: 'deleted',
+      R: 'renamed',
+      C: 'copied',
+    }
+
+    const changes = new Map<string, FileChangeData>()
+    const tokens = output.split('\0')
+
+    for (let i = 0; i < tokens.length; i++) {
+      const token = tokens[i].replace(/^\n+/, '')
+      if (!token) continue
+
+      if (token.startsWith(':')) {
+        // Raw entry: ":<mode> <mode> <sha> <sha> <status>" followed by one or two paths
+        const status = token.split(' ').pop() || 'M'
+        const changeType = statusTypes[status[0]] || 'modified'
+        const hasSource = changeType === 'renamed' || changeType === 'copied'
+        const oldPath = hasSource ? tokens[++i] : undefined
+        const filePath = tokens[++i]
+
+        changes.set(filePath, { path: filePath, oldPath, additions: 0, deletions: 0, changeType })
+        continue
       }
 
-      return changes
-    } catch (error: any) {
-      return [] // Return empty array if commit doesn't exist or has no changes
+      const match = token.match(/^(\d+|-)\t(\d+|-)\t(.*)$/)
+      if (!match) continue
+
+      // Numstat entry; renames and copies leave the path empty and list both paths after it
+      let filePath = match[3]
+      if (!filePath) {
+        i++
+        filePath = tokens[++i]
+      }
+
+      const change = changes.get(filePath)
+      if (change) {
+        // Binary files report '-' for both counts
+        change.additions = match[1] === '-' ? 0 : parseInt(match[1])
+        change.deletions = match[2] === '-' ? 0 : parseInt(match[2])
+      }
     }
+
+    return Array.from(changes.values())
   }
 
   /**
-   * Get all contributors with their statistics
+   * Stream the lines each commit added, per file, from zero-context patches.
+   * Merge commits add nothing of their own; ignored and vendored files are left out.
+   */
+  async *streamAddedLines(hashes: string[]): AsyncGenerator<AddedLinesData> {
+    const chunkSize = 200
+
+    for (let i = 0; i < hashes.length; i += chunkSize) {
+      const args = ['log', '--no-walk=unsorted', '-p', '-U0', '-M', '--no-color', '--no-ext-diff']
+      const records = this.streamRecords([
+        ...args,
+        '--format=%x1e%H',
+        '--end-of-options',
+        ...hashes.slice(i, i + chunkSize),
+      ])
+
+      for await (const record of records) {
+        yield* this.parsePatch(record)
+      }
+    }
+  }
+
+  /**
+   * Parse one `streamAddedLines` record: the commit hash followed by its patch
+   */
+  private parsePatch(record: string): AddedLinesData[] {
+    const lines = record.split('\n')
+    const hash = lines[0].trim()
+    if (!/^[0-9a-f]{40}$/.test(hash)) return []
+
+    const files: AddedLinesData[] = []
+    let current: AddedLinesData | null = null
+    let inHeader = false
+    let lineNumber = 0
+
+    for (const line of lines.slice(1)) {
+      if (line.startsWith('diff --git ')) {
+        current = null
+        inHeader = true
+      } else if (inHeader && line.startsWith('+++ ')) {
+        // Deleted files have no new side; quoted paths carry unusual characters
+        const target = line.slice(4).replace(/^"(.*)"$/, '$1')
+        if (target.startsWith('b/')) {
+          const filePath = target.slice(2)
+          const skip = this.shouldIgnoreFile(filePath) || isVendoredPath(filePath)
+          current = skip ? null : { hash, path: filePath, lines: [] }
+          if (current) files.push(current)
+        }
+      } else if (line.startsWith('@@')) {
+        inHeader = false
+        lineNumber = parseInt(line.match(/\+(\d+)/)?.[1] || '0')
+      } else if (!inHeader && current && line.startsWith('+')) {
+        current.lines.push({ line: lineNumber++, text: line.slice(1) })
+      }
+    }
+
+    return files.filter((file) => file.lines.length > 0)
+  }
+
+  /**
+   * Get all contributors with their statistics across every branch
    */
   async getContributors(): Promise<ContributorData[]> {
     try {
-      const { stdout } = await execPromise(
-        `cd "${this.repoPath}" && git log --format="%an|%ae|%aI" --numstat`
-      )
+      // %aN/%aE apply the repository's .mailmap
+      const { stdout } = await runGit(['log', '--branches', '--format=%aN|%aE|%aI', '--numstat'], {
+        cwd: this.repoPath,
+      })
 
       const contributorMap = new Map<string, ContributorData>()
       const lines = stdout.trim().split('\n')
@@ -253,46 +829,135 @@ export class GitService {
         if (!line) continue
 
         if (line.includes('|') && !line.includes('\t')) {
-          // Author line
+          // Author line, counted once per commit
           const [name, email, date] = line.split('|')
           currentAuthor = { name, email, date: new Date(date) }
-        } else if (currentAuthor && line.includes('\t')) {
-          // Stats line
-          const [addStr, delStr] = line.split('\t')
-          const additions = addStr === '-' ? 0 : parseInt(addStr) || 0
-          const deletions = delStr === '-' ? 0 : parseInt(delStr) || 0
 
-          const key = currentAuthor.email
-          const existing = contributorMap.get(key)
+          const existing = contributorMap.get(email)
 
           if (existing) {
             existing.commits++
-            existing.additions += additions
-            existing.deletions += deletions
             existing.lastCommit =
               currentAuthor.date > existing.lastCommit ? currentAuthor.date : existing.lastCommit
             existing.firstCommit =
               currentAuthor.date < existing.firstCommit ? currentAuthor.date : existing.firstCommit
           } else {
-            contributorMap.set(key, {
-              name: currentAuthor.name,
-              email: currentAuthor.email,
+            contributorMap.set(email, {
+              name,
+              email,
               commits: 1,
-              additions,
-              deletions,
+              additions: 0,
+              deletions: 0,
               firstCommit: currentAuthor.date,
               lastCommit: currentAuthor.date,
             })
           }
+        } else if (currentAuthor && line.includes('\t')) {
+          // Stats line
+          const [addStr, delStr] = line.split('\t')
+          const contributor = contributorMap.get(currentAuthor.email)!
+          contributor.additions += addStr === '-' ? 0 : parseInt(addStr) || 0
+          contributor.deletions += delStr === '-' ? 0 : parseInt(delStr) || 0
         }
       }
 
       return Array.from(contributorMap.values())
     } catch (error: any) {
+      if (error instanceof GitSecurityError) throw error
       throw new Error(`Failed to get contributors: ${error.message}`)
     }
   }
 
+  /**
+   * Count the lines of a file's current content last changed by each author
+   */
+  async blameFile(filePath: string): Promise<BlameData[]> {
+    try {
+      // Porcelain output applies .mailmap; -w skips whitespace-only changes
+      const { stdout } = await runGit(['blame', '--porcelain', '-w', 'HEAD', '--', filePath], {
+        cwd: this.repoPath,
+      })
+
+      // Author details appear only on the first line blamed to each commit
+      const authors = new Map<string, { name: string; email: string }>()
+      const lineCounts = new Map<string, number>()
+      let currentHash: string | null = null
+
+      for (const line of stdout.split('\n')) {
+        if (line.startsWith('\t')) {
+          if (currentHash) lineCounts.set(currentHash, (lineCounts.get(currentHash) || 0) + 1)
+          continue
+        }
+
+        const header = line.match(/^([0-9a-f]{40}) \d+ \d+/)
+        if (header) {
+          currentHash = header[1]
+          if (!authors.has(currentHash)) authors.set(currentHash, { name: '', email: '' })
+        } else if (currentHash && line.startsWith('author ')) {
+          authors.get(currentHash)!.name = line.slice('author '.length)
+        } else if (currentHash && line.startsWith('author-mail ')) {
+          authors.get(currentHash)!.email = line.slice('author-mail '.length).replace(/^<|>$/g, '')
+        }
+      }
+
+      const owners = new Map<string, BlameData>()
+      for (const [hash, lines] of lineCounts) {
+        const author = authors.get(hash)!
+        const owner = owners.get(author.email)
+        if (owner) {
+          owner.lines += lines
+        } else {
+          owners.set(author.email, { name: author.name, email: author.email, lines })
+        }
+      }
+
+      return Array.from(owners.values())
+    } catch (error: any) {
+      if (error instanceof GitSecurityError) throw error
+      throw new Error(`Failed to blame ${filePath}: ${error.message}`)
+    }
+  }
+
+  /**
+   * Find the commit and author that last changed each of the given lines
+   */
+  async blameLines(filePath: string, lineNumbers: number[]): Promise<Map<number, LineBlameData>> {
+    try {
+      const ranges = lineNumbers.flatMap((line) => ['-L', `${line},${line}`])
+      const { stdout } = await runGit(['blame', '--porcelain', ...ranges, 'HEAD', '--', filePath], {
+        cwd: this.repoPath,
+      })
+
+      // Author details appear only on the first line blamed to each commit
+      const commits = new Map<string, LineBlameData>()
+      const blamed = new Map<number, LineBlameData>()
+      let current: LineBlameData | null = null
+
+      for (const line of stdout.split('\n')) {
+        const header = line.match(/^([0-9a-f]{40}) \d+ (\d+)/)
+        if (header) {
+          const hash = header[1]
+          if (!commits.has(hash)) {
+            commits.set(hash, { hash, name: '', email: '', committedAt: new Date(0) })
+          }
+          current = commits.get(hash)!
+          blamed.set(parseInt(header[2]), current)
+        } else if (current && line.startsWith('author ')) {
+          current.name = line.slice('author '.length)
+        } else if (current && line.startsWith('author-mail ')) {
+          current.email = line.slice('author-mail '.length).replace(/^<|>$/g, '')
+        } else if (current && line.startsWith('author-time ')) {
+          current.committedAt = new Date(parseInt(line.slice('author-time '.length)) * 1000)
+        }
+      }
+
+      return blamed
+    } catch (error: any) {
+      if (error instanceof GitSecurityError) throw error
+      throw new Error(`Failed to blame ${filePath}: ${error.message}`)
+    }
+  }
+
   /**
    * Check if file should be ignored
    */
@@ -323,144 +988,153 @@ export class GitService {
   }
 
   /**
-   * Get file tree structure
-   */
-  /**
-   * Detect language from file extension
-   */
-  private detectLanguageFromExtension(extension: string | null): string | null {
-    if (!extension) return null
-
-    const ext = extension.toLowerCase().replace('.', '')
-    const languageMap: Record<string, string> = {
-      // JavaScript/TypeScript
-      js: 'JavaScript',
-      jsx: 'JavaScript',
-      mjs: 'JavaScript',
-      cjs: 'JavaScript',
-      ts: 'TypeScript',
-      tsx: 'TypeScript',
-      // Python
-      py: 'Python',
-      pyw: 'Python',
-      pyx: 'Python',
-      // Java
-      java: 'Java',
-      // C/C++
-      c: 'C',
-      h: 'C',
-      cpp: 'C++',
-      cc: 'C++',
-      cxx: 'C++',
-      hpp: 'C++',
-      hxx: 'C++',
-      // C#
-      cs: 'C#',
-      // Go
-      go: 'Go',
-      // Rust
-      rs: 'Rust',
-      // Ruby
-      rb: 'Ruby',
-      // PHP
-      php: 'PHP',
-      // Swift
-      swift: 'Swift',
-      // Kotlin
-      kt: 'Kotlin',
-      kts: 'Kotlin',
-      // Scala
-      scala: 'Scala',
-      sc: 'Scala',
-      // R
-      r: 'R',
-      // Shell
-      sh: 'Shell',
-      bash: 'Shell',
-      zsh: 'Shell',
-      // Web
-      html: 'HTML',
-      htm: 'HTML',
-      css: 'CSS',
-      scss: 'SCSS',
-      sass: 'Sass',
-      less: 'Less',
-      // Data/Config
-      json: 'JSON',
-      xml: 'XML',
-      yaml: 'YAML',
-      yml: 'YAML',
-      toml: 'TOML',
-      ini: 'INI',
-      // Markup
-      md: 'Markdown',
-      markdown: 'Markdown',
-      rst: 'reStructuredText',
-      // SQL
-      sql: 'SQL',
-      // Other
-      vue: 'Vue',
-      svelte: 'Svelte',
-    }
-
-    return languageMap[ext] || null
-  }
-
-  async getFileTree(): Promise<
-    {
-      path: string
-      name: string
-      size: number
-      extension: string | null
-      lines: number
-      language: string | null
-    }[]
-  > {
+   * Read linguist-* overrides from .gitattributes for the given paths
+   */
+  private async getLinguistAttributes(
+    filePaths: string[]
+  ): Promise<Map<string, LinguistAttributes>> {
+    const attributes = new Map<string, LinguistAttributes>()
+    const chunkSize = 500
+
+    for (let i = 0; i < filePaths.length; i += chunkSize) {
+      const { stdout } = await runGit(
+        [
+          'check-attr',
+          '-z',
+          'linguist-language',
+          'linguist-vendored',
+          'linguist-generated',
+          '--',
+          ...filePaths.slice(i, i + chunkSize),
+        ],
+        { cwd: this.repoPath }
+      )
+
+      // Output is a flat list of path, attribute, value triples
+      const fields = stdout.split('\0')
+      for (let j = 0; j + 2 < fields.length; j += 3) {
+        const [filePath, attribute, value] = [fields[j], fields[j + 1], fields[j + 2]]
+        if (value === 'unspecified') continue
+
+        const entry = attributes.get(filePath) || {}
+        const flag = value === 'set' || value === 'true'
+
+        if (attribute === 'linguist-language' && value !== 'set' && value !== 'unset') {
+          entry.language = value
+        } else if (attribute === 'linguist-vendored') {
+          entry.vendored = flag
+        } else if (attribute === 'linguist-generated') {
+          entry.generated = flag
+        }
+
+        attributes.set(filePath, entry)
+      }
+    }
+
+    return attributes
+  }
+
+  /**
+   * Paths of the files tracked in the worktree. NUL-separated output keeps paths with
+   * non-ASCII or special characters as they are instead of quoting them.
+   */
+  private async listFiles(): Promise<string[]> {
+    const { stdout } = await runGit(['ls-files', '-z'], { cwd: this.repoPath })
+    return stdout.split('\0').filter(Boolean)
+  }
+
+  /**
+   * List and read the worktree once for the analysis stages that look at file contents.
+   * Ignored files are left out, except manifests and lockfiles, which are also read when
+   * larger than `maxBytes` since lockfiles routinely are.
+   */
+  async readTree(maxBytes: number = MAX_READ_BYTES): Promise<TreeFile[]> {
+    let filePaths: string[]
     try {
-      const { stdout } = await execPromise(`cd "${this.repoPath}" && git ls-files`)
-
-      const files: {
-        path: string
-        name: string
-        size: number
-        extension: string | null
-        lines: number
-        language: string | null
-      }[] = []
-      const filePaths = stdout.trim().split('\n').filter(Boolean)
-
-      for (const filePath of filePaths) {
-        // Skip ignored files
-        if (this.shouldIgnoreFile(filePath)) {
-          continue
+      filePaths = (await this.listFiles()).filter(
+        (filePath) => !this.shouldIgnoreFile(filePath) || isManifestPath(filePath)
+      )
+    } catch (error: any) {
+      if (error instanceof GitSecurityError) throw error
+      throw new Error(`Failed to list files: ${error.message}`)
+    }
+
+    const tree: TreeFile[] = []
+
+    for (const filePath of filePaths) {
+      try {
+        const fullPath = path.join(this.repoPath, filePath)
+        const stats = await fs.stat(fullPath)
+        if (!stats.isFile()) continue
+
+        let content: string | null = null
+        if (stats.size <= maxBytes || isManifestPath(filePath)) {
+          const buffer = await fs.readFile(fullPath)
+          content = buffer.subarray(0, 8000).includes(0) ? null : buffer.toString('utf-8')
         }
 
+        tree.push({ path: filePath, size: stats.size, content })
+      } catch {
+        // Skip files that can't be accessed
+        continue
+      }
+    }
+
+    return tree
+  }
+
+  /**
+   * Get file tree structure. Files larger than `maxBytes` are classified from their first
+   * bytes and have their lines counted without being read into memory or measured.
+   */
+  async getFileTree(
+    tree: TreeFile[],
+    only?: Set<string>,
+    maxBytes: number = MAX_READ_BYTES
+  ): Promise<FileData[]> {
+    try {
+      const files: FileData[] = []
+      const treeFiles = tree.filter(
+        // Skip ignored files, and files outside the requested subset
+        (file) => !this.shouldIgnoreFile(file.path) && (!only || only.has(file.path))
+      )
+
+      const hasGitAttributes = tree.some((file) => path.basename(file.path) === '.gitattributes')
+      const attributes = hasGitAttributes
+        ? await this.getLinguistAttributes(treeFiles.map((file) => file.path))
+        : new Map<string, LinguistAttributes>()
+
+      for (const file of treeFiles) {
         try {
-          const fullPath = path.join(this.repoPath, filePath)
-          const stats = await fs.stat(fullPath)
-          const name = path.basename(filePath)
-          const extension = path.extname(filePath) || null
-
-          // Count lines in the file
-          let lineCount = 0
-          try {
-            const content = await fs.readFile(fullPath, 'utf-8')
-            lineCount = content.split('\n').length
-          } catch {
-            // If can't read as text, estimate from bytes (avg 80 chars per line)
-            lineCount = Math.ceil(stats.size / 80)
+          const fullPath = path.join(this.repoPath, file.path)
+          const name = path.basename(file.path)
+          const extension = path.extname(file.path) || null
+
+          // Binary files have no lines and are only classified by path
+          const oversized = file.size > maxBytes
+          let content = file.content ?? undefined
+          let lineCount = content !== undefined ? content.split('\n').length : 0
+          if (oversized) {
+            const head = await this.readHead(fullPath, 8000)
+            content = head.includes(0) ? undefined : head.toString('utf-8')
+            lineCount = content !== undefined ? await this.countLines(fullPath) : 0
           }
+          const isBinary = content === undefined
 
-          // Detect language from extension
-          const language = this.detectLanguageFromExtension(extension)
+          const linguist = classifyFile(file.path, content, attributes.get(file.path))
+          const analyzed =
+            content !== undefined && !oversized && !linguist.vendored && !linguist.generated
 
           files.push({
-            path: filePath,
+            path: file.path,
             name,
-            size: stats.size,
+            size: file.size,
             extension,
             lines: lineCount,
-            language,
+            language: isBinary ? attributes.get(file.path)?.language || null : linguist.language,
+            isVendored: linguist.vendored,
+            isGenerated: linguist.generated,
+            metrics: analyzed ? analyzeCode(content!, linguist.language) : null,
           })
         } catch {
           // Skip files that can't be accessed
@@ -470,83 +1144,72 @@ export class GitService {
 
       return files
     } catch (error: any) {
+      if (error instanceof GitSecurityError) throw error
       throw new Error(`Failed to get file tree: ${error.message}`)
     }
   }
 
   /**
-   * Detect programming languages in the repository
+   * First bytes of a file
    */
-  async detectLanguages(): Promise<LanguageData[]> {
+  private async readHead(fullPath: string, bytes: number): Promise<Buffer> {
+    const handle = await fs.open(fullPath, 'r')
     try {
-      const files = await this.getFileTree()
-
-      const languageStats = new Map<string, { bytes: number; lines: number }>()
-      let totalBytes = 0
-
-      const extensionToLanguage: Record<string, string> = {
-        '.ts': 'TypeScript',
-        '.tsx': 'TypeScript',
-        '.js': 'JavaScript',
-        '.jsx': 'JavaScript',
-        '.py': 'Python',
-        '.java': 'Java',
-        '.go': 'Go',
-        '.rs': 'Rust',
-        '.cpp': 'C++',
-        '.c': 'C',
-        '.cs': 'C#',
-        '.rb': 'Ruby',
-        '.php': 'PHP',
-        '.swift': 'Swift',
-        '.kt': 'Kotlin',
-        '.css': 'CSS',
-        '.scss': 'SCSS',
-        '.html': 'HTML',
-        '.json': 'JSON',
-        '.md': 'Markdown',
-        '.yml': 'YAML',
-        '.yaml': 'YAML',
-      }
+      const { buffer, bytesRead } = await handle.read(Buffer.alloc(bytes), 0, bytes, 0)
+      return buffer.subarray(0, bytesRead)
+    } finally {
+      await handle.close()
+    }
+  }
 
-      for (const file of files) {
-        if (file.extension) {
-          const language = extensionToLanguage[file.extension]
-          if (language) {
-            const stats = languageStats.get(language) || { bytes: 0, lines: 0 }
-            stats.bytes += file.size
-
-            // Count lines in the file
-            try {
-              const fullPath = path.join(this.repoPath, file.path)
-              const content = await fs.readFile(fullPath, 'utf-8')
-              const lineCount = content.split('\n').length
-              stats.lines += lineCount
-            } catch {
-              // If can't read file, estimate lines from bytes (avg 80 chars per line)
-              stats.lines += Math.ceil(file.size / 80)
-            }
-
-            languageStats.set(language, stats)
-            totalBytes += file.size
-          }
-        }
-      }
+  /**
+   * Count the lines of a file chunk by chunk
+   */
+  private async countLines(fullPath: string): Promise<number> {
+    let lines = 1
+    for await (const chunk of createReadStream(fullPath)) {
+      for (let i = chunk.indexOf(10); i !== -1; i = chunk.indexOf(10, i + 1)) lines++
+    }
+    return lines
+  }
 
-      const languages: LanguageData[] = []
-      for (const [name, stats] of languageStats.entries()) {
-        languages.push({
-          name,
-          bytes: stats.bytes,
-          lines: stats.lines,
-          percentage: (stats.bytes / totalBytes) * 100,
-        })
-      }
+  /**
+   * Dependency manifests and lockfiles in the tree, which the file tree leaves out.
+   * Vendored copies, such as manifests inside node_modules, are skipped.
+   */
+  getManifests(tree: TreeFile[]): { path: string; content: string }[] {
+    return tree
+      .filter((file) => isManifestPath(file.path) && !isVendoredPath(file.path))
+      .filter((file): file is TreeFile & { content: string } => file.content !== null)
+      .map((file) => ({ path: file.path, content: file.content }))
+  }
 
-      return languages.sort((a, b) => b.percentage - a.percentage)
-    } catch (error: any) {
-      throw new Error(`Failed to detect languages: ${error.message}`)
-    }
+  /**
+   * LICENSE, COPYING and similar files in the tree. Unlike manifests, vendored copies
+   * are kept: they mark directories of third-party code under their own license.
+   */
+  getLicenseFiles(tree: TreeFile[]): { path: string; content: string }[] {
+    return tree
+      .filter((file) => isLicenseFilePath(file.path) && !this.shouldIgnoreFile(file.path))
+      .filter((file): file is TreeFile & { content: string } => file.content !== null)
+      .map((file) => ({ path: file.path, content: file.content }))
+  }
+
+  /**
+   * Text files of the tree, optionally only those in `only`.
+   * Ignored, vendored, binary and oversized files are skipped.
+   */
+  getTextFiles(tree: TreeFile[], only?: Set<string>): { path: string; content: string }[] {
+    return tree
+      .filter(
+        (file) =>
+          (!only || only.has(file.path)) &&
+          file.size <= MAX_READ_BYTES &&
+          !this.shouldIgnoreFile(file.path) &&
+          !isVendoredPath(file.path)
+      )
+      .filter((file): file is TreeFile & { content: string } => file.content !== null)
+      .map((file) => ({ path: file.path, content: file.content }))
   }
 
   /**
@@ -554,19 +1217,26 @@ export class GitService {
    */
   async getRepositorySize(): Promise<number> {
     try {
-      const { stdout } = await execPromise(`cd "${this.repoPath}" && du -sb . | cut -f1`)
-      return parseInt(stdout.trim())
+      // Loose and packed object sizes, reported in KiB
+      const { stdout } = await runGit([`--git-dir=${this.mirrorPath}`, 'count-objects', '-v'])
+      const kib = (key: string) =>
+        parseInt(stdout.match(new RegExp(`^${key}: (\\d+)`, 'm'))?.[1] || '0')
+      return (kib('size') + kib('size-pack')) * 1024
     } catch (error: any) {
       return 0
     }
   }
 
   /**
-   * Clean up the cloned repository
+   * Remove the temporary worktree; the mirror itself is kept
    */
   async cleanup(): Promise<void> {
+    // Opened with openMirror: there is no worktree, and the mirror must stay
+    if (this.repoPath === this.mirrorPath) return
+
     try {
       await fs.rm(this.repoPath, { recursive: true, force: true })
+      await runGit([`--git-dir=${this.mirrorPath}`, 'worktree', 'prune'])
     } catch (error: any) {
       console.error(`Failed to cleanup repository: ${error.message}`)
     }
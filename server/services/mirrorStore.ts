@@ -0,0 +1,271 @@
+import * as path from 'path'
+import * as os from 'os'
+import * as fs from 'fs/promises'
+import { runGit, runGitWithSizeLimit, assertRepositoryUrlAllowed, diskUsage } from './gitRunner'
+
+// Touched on every use so eviction can pick the least recently used mirror
+const LAST_USED_FILE = 'gitverse-last-used'
+
+// Only branches and tags are mirrored, not pull request or other hosting-specific refs
+const MIRROR_REFSPECS = ['+refs/heads/*:refs/heads/*', '+refs/tags/*:refs/tags/*']
+
+export interface MirrorStoreOptions {
+  root: string
+  maxBytes: number
+}
+
+export interface MirrorInfo {
+  repositoryId: number
+  path: string
+  bytes: number
+  lastUsedAt: Date
+}
+
+/**
+ * On-disk store of bare mirrors keyed by repository id.
+ * Mirrors are cloned once and refreshed with `git fetch`, and the least recently used ones
+ * are evicted whenever the store grows past its size limit.
+ */
+export class MirrorStore {
+  private root: string
+  private maxBytes: number
+
+  // Reference counts of mirrors held by running analyses, which are never evicted
+  private inUse = new Map<number, number>()
+
+  // In-flight clone/fetch per repository so concurrent callers share one update
+  private updating = new Map<number, Promise<string>>()
+
+  // Mirrors removed while held, deleted once their last holder releases them
+  private removing = new Set<number>()
+
+  constructor(options: MirrorStoreOptions) {
+    this.root = options.root
+    this.maxBytes = options.maxBytes
+  }
+
+  /**
+   * Path of the mirror for a repository, whether or not it exists yet
+   */
+  mirrorPath(repositoryId: number): string {
+    return path.join(this.root, `repo-${repositoryId}.git`)
+  }
+
+  /**
+   * Clone or refresh the mirror for a repository and hold it until `release` is called
+   */
+  async acquire(repositoryId: number, url: string): Promise<string> {
+    this.inUse.set(repositoryId, (this.inUse.get(repositoryId) || 0) + 1)
+
+    try {
+      let update = this.updating.get(repositoryId)
+      if (!update) {
+        update = this.update(repositoryId, url).finally(() => this.updating.delete(repositoryId))
+        this.updating.set(repositoryId, update)
+      }
+
+      const mirrorPath = await update
+      await this.evict()
+      return mirrorPath
+    } catch (error) {
+      this.release(repositoryId)
+      throw error
+    }
+  }
+
+  /**
+   * Hold the mirror for a repository as it is, without cloning or fetching, so callers such
+   * as API requests never wait on the network. Returns null when no complete mirror exists.
+   */
+  async acquireExisting(repositoryId: number, url: string): Promise<string | null> {
+    this.inUse.set(repositoryId, (this.inUse.get(repositoryId) || 0) + 1)
+
+    const mirrorPath = this.mirrorPath(repositoryId)
+    try {
+      if (this.removing.has(repositoryId)) throw new Error('Mirror is being removed')
+
+      // The marker file is only written once a clone has completed
+      await fs.stat(path.join(mirrorPath, LAST_USED_FILE))
+      const { stdout } = await runGit([
+        `--git-dir=${mirrorPath}`,
+        'config',
+        '--get',
+        'remote.origin.url',
+      ])
+      if (stdout.trim() !== url) throw new Error('Mirror points elsewhere')
+
+      const now = new Date()
+      await fs.utimes(path.join(mirrorPath, LAST_USED_FILE), now, now)
+      return mirrorPath
+    } catch {
+      this.release(repositoryId)
+      return null
+    }
+  }
+
+  /**
+   * Let a mirror become eligible for eviction again
+   */
+  release(repositoryId: number) {
+    const count = (this.inUse.get(repositoryId) || 0) - 1
+    if (count > 0) {
+      this.inUse.set(repositoryId, count)
+    } else {
+      this.inUse.delete(repositoryId)
+
+      if (this.removing.delete(repositoryId)) {
+        this.remove(repositoryId).catch((error) => {
+          console.error(`Failed to remove mirror for repository ${repositoryId}:`, error)
+        })
+      }
+    }
+  }
+
+  /**
+   * Delete the mirror for a repository, or once it is released if an analysis still holds it
+   */
+  async remove(repositoryId: number) {
+    if (this.inUse.has(repositoryId)) {
+      this.removing.add(repositoryId)
+      return
+    }
+
+    await fs.rm(this.mirrorPath(repositoryId), { recursive: true, force: true })
+  }
+
+  /**
+   * List mirrors currently on disk
+   */
+  async list(): Promise<MirrorInfo[]> {
+    let entries: string[]
+    try {
+      entries = await fs.readdir(this.root)
+    } catch {
+      return []
+    }
+
+    const mirrors: MirrorInfo[] = []
+
+    for (const entry of entries) {
+      const match = entry.match(/^repo-(\d+)\.git$/)
+      if (!match) continue
+
+      const mirrorPath = path.join(this.root, entry)
+
+      try {
+        const stats = await fs.stat(path.join(mirrorPath, LAST_USED_FILE))
+
+        mirrors.push({
+          repositoryId: parseInt(match[1]),
+          path: mirrorPath,
+          bytes: await diskUsage(mirrorPath),
+          lastUsedAt: stats.mtime,
+        })
+      } catch {
+        // Skip mirrors that are half-written or being removed
+        continue
+      }
+    }
+
+    return mirrors
+  }
+
+  private async update(repositoryId: number, url: string): Promise<string> {
+    assertRepositoryUrlAllowed(url)
+
+    const mirrorPath = this.mirrorPath(repositoryId)
+    const gitDir = `--git-dir=${mirrorPath}`
+
+    let existingUrl: string | null = null
+    try {
+      const { stdout } = await runGit([gitDir, 'config', '--get', 'remote.origin.url'])
+      existingUrl = stdout.trim()
+    } catch {
+      existingUrl = null
+    }
+
+    if (existingUrl === url) {
+      console.log(`Fetching into existing mirror ${mirrorPath}`)
+      await this.fetch(mirrorPath)
+      // Worktrees left behind by interrupted runs would otherwise pin their branches
+      await runGit([gitDir, 'worktree', 'prune'])
+      await this.syncDefaultBranch(mirrorPath)
+    } else {
+      // Missing, broken or pointing elsewhere: start over
+      await fs.rm(mirrorPath, { recursive: true, force: true })
+      await fs.mkdir(this.root, { recursive: true })
+      console.log(`Cloning mirror of ${url} to ${mirrorPath}`)
+      try {
+        await runGit(['init', '--bare', '--quiet', mirrorPath])
+        await runGit([gitDir, 'config', 'remote.origin.url', url])
+        await this.fetch(mirrorPath)
+        await this.syncDefaultBranch(mirrorPath)
+      } catch (error) {
+        await fs.rm(mirrorPath, { recursive: true, force: true })
+        throw error
+      }
+    }
+
+    const now = new Date()
+    await fs.writeFile(path.join(mirrorPath, LAST_USED_FILE), '')
+    await fs.utimes(path.join(mirrorPath, LAST_USED_FILE), now, now)
+
+    return mirrorPath
+  }
+
+  /**
+   * Fetch branches and tags from the remote, dropping those it no longer has
+   */
+  private async fetch(mirrorPath: string) {
+    await runGitWithSizeLimit(
+      [`--git-dir=${mirrorPath}`, 'fetch', '--prune', '--quiet', 'origin', ...MIRROR_REFSPECS],
+      mirrorPath
+    )
+  }
+
+  /**
+   * Point the mirror's HEAD at the remote's current default branch
+   */
+  private async syncDefaultBranch(mirrorPath: string) {
+    try {
+      const { stdout } = await runGit([
+        `--git-dir=${mirrorPath}`,
+        'ls-remote',
+        '--symref',
+        'origin',
+        'HEAD',
+      ])
+      const match = stdout.match(/^ref: (refs\/heads\/\S+)\tHEAD/m)
+      if (match) {
+        await runGit([`--git-dir=${mirrorPath}`, 'symbolic-ref', 'HEAD', match[1]])
+      }
+    } catch {
+      // Keep the previous HEAD if the remote does not advertise one
+    }
+  }
+
+  /**
+   * Remove least recently used mirrors until the store fits its size limit
+   */
+  private async evict() {
+    const mirrors = await this.list()
+    let total = mirrors.reduce((sum, m) => sum + m.bytes, 0)
+
+    const candidates = mirrors
+      .filter((m) => !this.inUse.has(m.repositoryId) && !this.updating.has(m.repositoryId))
+      .sort((a, b) => a.lastUsedAt.getTime() - b.lastUsedAt.getTime())
+
+    for (const mirror of candidates) {
+      if (total <= this.maxBytes) break
+
+      console.log(`Evicting mirror ${mirror.path} (${mirror.bytes} bytes)`)
+      await fs.rm(mirror.path, { recursive: true, force: true })
+      total -= mirror.bytes
+    }
+  }
+}
+
+export const mirrorStore = new MirrorStore({
+  root: process.env.GIT_MIRROR_DIR || path.join(os.tmpdir(), 'gitverse', 'mirrors'),
+  maxBytes: parseInt(process.env.GIT_MIRROR_MAX_BYTES || '') || 5 * 1024 * 1024 * 1024,
+})
@@ -1,9 +1,99 @@
 import { prisma } from '../prisma'
-import { GitService } from './gitService'
+import {
+  GitService,
+  CommitData,
+  ContributorData,
+  BlameData,
+  LineBlameData,
+} from './gitService'
+import { mirrorStore } from './mirrorStore'
+import { advisoryService } from './advisoryService'
+import { assertRepositoryUrlAllowed } from './gitRunner'
+import { isStatsLanguage } from '../utils/linguist'
+import { buildChangelog, toChangelogEntry } from '../utils/changelog'
+import { calculateQualityScore, combineMetrics } from '../utils/codeMetrics'
+import { extractDeclaredLicense, extractDependencies } from '../utils/dependencies'
+import { toCycloneDX, toSPDX, SbomFormat } from '../utils/sbom'
+import { SEVERITY_ORDER, Severity } from '../utils/osv'
+import {
+  ALLOW_LIST_FILE,
+  SECRET_RULES,
+  isFindingAllowed,
+  parseAllowList,
+  scanContent,
+  scanLines,
+} from '../utils/secrets'
+import {
+  LicenseCategory,
+  classifyLicenseText,
+  findSpdxHeader,
+  isSameLicense,
+  licenseCategory,
+  licenseName,
+  repositoryLicense,
+} from '../utils/licenses'
+import {
+  getLanguageColor,
+  parseCommitMessage,
+  calculateHotspots,
+  aggregateDirectoryHotspots,
+  buildHotspotTree,
+  calculateActivity,
+  ActivityGranularity,
+  calculatePunchcard,
+  WorkingHours,
+  calculateCoupling,
+  getKnowledgeHolders,
+  calculateBusFactor,
+  classifyBranch,
+  checkBranchName,
+  BranchNamingPolicy,
+  Hotspot,
+} from '../utils/repositoryUtils'
+import { Prisma } from '@prisma/client'
 import * as path from 'path'
 import * as os from 'os'
 import * as crypto from 'crypto'
 
+export type AnalysisStage =
+  | 'queued'
+  | 'clone'
+  | 'branches'
+  | 'commits'
+  | 'tags'
+  | 'files'
+  | 'ownership'
+  | 'quality'
+  | 'dependencies'
+  | 'vulnerabilities'
+  | 'secrets'
+  | 'licenses'
+  | 'contributors'
+  | 'languages'
+  | 'done'
+
+// Progress reported when a run enters each stage
+const STAGE_PROGRESS: Record<AnalysisStage, number> = {
+  queued: 0,
+  clone: 5,
+  branches: 20,
+  commits: 30,
+  tags: 50,
+  files: 55,
+  ownership: 65,
+  quality: 68,
+  dependencies: 70,
+  vulnerabilities: 72,
+  secrets: 73,
+  licenses: 74,
+  contributors: 75,
+  languages: 90,
+  done: 100,
+}
+
+// Commits written to the database per batch during ingestion
+const COMMIT_BATCH_SIZE = 200
+
 export interface AnalyzeRepositoryInput {
   name: string
   url: string
@@ -11,11 +101,35 @@ export interface AnalyzeRepositoryInput {
   userId: number
 }
 
+export interface CommitFilters {
+  cursor?: number
+  limit: number
+  author?: string
+  since?: Date
+  until?: Date
+  branch?: string
+  path?: string
+  message?: string
+  type?: string
+}
+
+export class AnalysisCancelledError extends Error {
+  constructor(runId: number) {
+    super(`Analysis run ${runId} was cancelled`)
+    this.name = 'AnalysisCancelledError'
+  }
+}
+
 export class RepositoryService {
+  // Abort controllers for runs executing in this process, keyed by run id
+  private activeRuns = new Map<number, AbortController>()
+
   /**
    * Create a new repository record or return existing one
    */
   async createRepository(input: AnalyzeRepositoryInput) {
+    assertRepositoryUrlAllowed(input.url)
+
     // Check if repository with same URL already exists for this user
     const existingRepository = await prisma.repository.findFirst({
       where: {
@@ -30,15 +144,7 @@ export class RepositoryService {
       // If analysis failed or pending, retry analysis
       if (existingRepository.status === 'failed' || existingRepository.status === 'pending') {
         console.log(`Retrying analysis for repository ${existingRepository.id}`)
-        this.analyzeRepository(existingRepository.id).catch((error) => {
-          console.error(`Failed to re-analyze repository ${existingRepository.id}:`, error)
-          prisma.repository
-            .update({
-              where: { id: existingRepository.id },
-              data: { status: 'failed' },
-            })
-            .catch(console.error)
-        })
+        await this.startAnalysis(existingRepository.id)
       }
 
       return existingRepository
@@ -54,24 +160,62 @@ export class RepositoryService {
       },
     })
 
-    // Start analysis in background (don't await)
-    this.analyzeRepository(repository.id).catch((error) => {
-      console.error(`Failed to analyze repository ${repository.id}:`, error)
-      prisma.repository
-        .update({
-          where: { id: repository.id },
-          data: { status: 'failed' },
-        })
-        .catch(console.error)
-    })
+    // Start analysis in background
+    await this.startAnalysis(repository.id)
 
     return repository
   }
 
+  /**
+   * Record a new analysis run and start it in the background
+   */
+  async startAnalysis(repositoryId: number, retryOfId?: number) {
+    const repository = await prisma.repository.findUnique({
+      where: { id: repositoryId },
+      select: { url: true },
+    })
+
+    if (!repository) {
+      throw new Error('Repository not found')
+    }
+
+    // Refuse up front rather than recording a run that is bound to fail
+    assertRepositoryUrlAllowed(repository.url)
+
+    // Concurrent runs would race on commit inserts and branch and tag upserts
+    const activeRun = await prisma.analysisRun.findFirst({
+      where: { repositoryId, status: 'running' },
+    })
+
+    if (activeRun) {
+      throw new Error('Analysis already running')
+    }
+
+    const run = await prisma.analysisRun.create({
+      data: {
+        repositoryId,
+        retryOfId,
+      },
+    })
+
+    const controller = new AbortController()
+    this.activeRuns.set(run.id, controller)
+
+    this.analyzeRepository(repositoryId, run.id, controller.signal)
+      .catch((error) => {
+        console.error(`Failed to analyze repository ${repositoryId} (run ${run.id}):`, error)
+      })
+      .finally(() => {
+        this.activeRuns.delete(run.id)
+      })
+
+    return run
+  }
+
   /**
    * Analyze a repository and store all data
    */
-  async analyzeRepository(repositoryId: number) {
+  async analyzeRepository(repositoryId: number, runId: number, signal?: AbortSignal) {
     const repository = await prisma.repository.findUnique({
       where: { id: repositoryId },
     })
@@ -86,7 +230,7 @@ export class RepositoryService {
       data: { status: 'analyzing' },
     })
 
-    // Create temporary directory for cloning
+    // Temporary worktree checked out from the repository's mirror
     const tempDir = path.join(
       os.tmpdir(),
       'gitverse',
@@ -94,110 +238,321 @@ export class RepositoryService {
     )
 
     let gitService: GitService | null = null
+    let mirrorHeld = false
+
+    // Record the stage a run has reached, bailing out first if it was cancelled
+    const enterStage = async (
+      stage: AnalysisStage,
+      data: { mode?: 'full' | 'incremental'; commitCount?: number; fileCount?: number } = {}
+    ) => {
+      if (signal?.aborted) {
+        throw new AnalysisCancelledError(runId)
+      }
+
+      await prisma.analysisRun.update({
+        where: { id: runId },
+        data: { stage, progress: STAGE_PROGRESS[stage], ...data },
+      })
+    }
 
     try {
-      // Clone repository
-      console.log(`Cloning repository ${repository.url} to ${tempDir}`)
-      gitService = await GitService.cloneRepository(repository.url, tempDir)
+      // Branch heads recorded by the previous run, used to ingest only new commits
+      const analyzedBranches = await prisma.branch.findMany({
+        where: { repositoryId, lastAnalyzedHash: { not: null } },
+        select: { name: true, lastAnalyzedHash: true },
+      })
+      const lastHeads = new Map(analyzedBranches.map((b) => [b.name, b.lastAnalyzedHash!]))
+
+      // Manual identity rules on top of the repository's .mailmap
+      const aliasRules = await prisma.contributorAlias.findMany({ where: { repositoryId } })
+      const aliases = new Map(aliasRules.map((rule) => [rule.email, rule]))
+
+      // Clone or fetch the repository mirror, then check out the default branch
+      await enterStage('clone')
+      const mirrorPath = await mirrorStore.acquire(repositoryId, repository.url)
+      mirrorHeld = true
+      console.log(`Checking out ${mirrorPath} to ${tempDir}`)
+      gitService = await GitService.fromMirror(mirrorPath, tempDir)
 
       // Get repository size
       const size = await gitService.getRepositorySize()
 
       // Analyze branches
+      await enterStage('branches')
       console.log(`Analyzing branches for repository ${repositoryId}`)
       const branches = await gitService.getBranches()
       const defaultBranch = branches.find((b) => b.isDefault)?.name || 'main'
 
-      await prisma.branch.createMany({
-        data: branches.map((branch) => ({
-          name: branch.name,
+      const branchIds = new Map<string, number>()
+
+      for (const branch of branches) {
+        const data = {
           isDefault: branch.isDefault,
           isProtected: branch.isProtected,
           commitCount: branch.commitCount,
           lastCommitAt: branch.lastCommitAt,
-          repositoryId,
-        })),
-        skipDuplicates: true,
+          firstCommitAt: branch.firstCommitAt,
+          aheadCount: branch.aheadCount,
+          behindCount: branch.behindCount,
+          isMerged: branch.isMerged,
+        }
+
+        const stored = await prisma.branch.upsert({
+          where: { repositoryId_name: { repositoryId, name: branch.name } },
+          create: { ...data, name: branch.name, repositoryId },
+          update: data,
+        })
+        branchIds.set(branch.name, stored.id)
+      }
+
+      // Forget branches deleted upstream along with their commit links
+      await prisma.branch.deleteMany({
+        where: { repositoryId, name: { notIn: branches.map((b) => b.name) } },
       })
 
-      // Analyze commits for default branch
-      console.log(`Analyzing commits for repository ${repositoryId}`)
-      const commits = await gitService.getCommits(defaultBranch, 500)
-      console.log(`Total commits fetched from git: ${commits.length}`)
+      // Re-analysis only walks commits after the last analyzed head, unless history was rewritten
+      const sinceByBranch = new Map<string, string>()
+      for (const branch of branches) {
+        const lastHead = lastHeads.get(branch.name)
+        if (lastHead && (await gitService.isAncestor(lastHead, branch.name))) {
+          sinceByBranch.set(branch.name, lastHead)
+        }
+      }
+      const incremental = sinceByBranch.has(defaultBranch)
+
+      // Analyze commits on every branch, default branch first so it owns shared commits
+      await enterStage('commits', { mode: incremental ? 'incremental' : 'full' })
+      const orderedBranches = [...branches].sort(
+        (a, b) => Number(b.isDefault) - Number(a.isDefault)
+      )
 
       // Get existing commit hashes for this repository
       const existingCommits = await prisma.commit.findMany({
         where: { repositoryId },
         select: { hash: true, id: true },
       })
-      const existingHashes = new Map(existingCommits.map((c) => [c.hash, c.id]))
+      const commitIds = new Map(existingCommits.map((c) => [c.hash, c.id]))
 
-      // Filter out commits that already exist
-      const newCommits = commits.filter((commit) => !existingHashes.has(commit.hash))
+      const insertedCommits: CommitData[] = []
+      const defaultBranchPaths = new Set<string>()
+      let failedCount = 0
 
-      console.log(
-        `Found ${commits.length} commits, ${newCommits.length} are new, ${existingCommits.length} already exist`
-      )
+      for (const branch of orderedBranches) {
+        const since = sinceByBranch.get(branch.name)
+        const branchId = branchIds.get(branch.name)!
 
-      let insertedCount = 0
-      let failedCount = 0
+        console.log(
+          `Analyzing commits on ${branch.name} for repository ${repositoryId}` +
+            (since ? ` since ${since.substring(0, 7)}` : '')
+        )
 
-      for (const commit of newCommits) {
-        try {
-          const createdCommit = await prisma.commit.create({
-            data: {
-              hash: commit.hash,
-              shortHash: commit.shortHash,
-              message: commit.message,
-              description: commit.description,
-              authorName: commit.authorName,
-              authorEmail: commit.authorEmail,
-              committedAt: commit.committedAt,
-              branch: commit.branch,
-              additions: commit.additions,
-              deletions: commit.deletions,
-              filesChanged: commit.filesChanged,
-              repositoryId,
-            },
+        const branchHashes: string[] = []
+        const pending: CommitData[] = []
+        let branchFailedCount = 0
+
+        // Write buffered commits in one batch, counting the whole batch as failed on error
+        const flush = async () => {
+          if (pending.length === 0) return
+
+          try {
+            const ids = await this.insertCommitBatch(repositoryId, pending)
+            ids.forEach((id, hash) => commitIds.set(hash, id))
+            insertedCommits.push(...pending)
+          } catch (error: any) {
+            branchFailedCount += pending.length
+            console.error(`Failed to insert batch of ${pending.length} commits:`, error.message)
+          }
+
+          pending.length = 0
+          await prisma.analysisRun.update({
+            where: { id: runId },
+            data: { commitCount: insertedCommits.length },
           })
+        }
 
-          insertedCount++
-
-          // Store file changes
-          if (commit.fileChanges.length > 0) {
-            await prisma.fileChange.createMany({
-              data: commit.fileChanges.map((change) => ({
-                path: change.path,
-                additions: change.additions,
-                deletions: change.deletions,
-                changeType: change.changeType,
-                commitId: createdCommit.id,
-              })),
-              skipDuplicates: true,
-            })
+        // New commits are walked in full so the recorded head never skips any
+        const commits = gitService.streamCommits(branch.name, since ? null : 500, since)
+
+        for await (const commit of commits) {
+          if (signal?.aborted) {
+            throw new AnalysisCancelledError(runId)
           }
-        } catch (error: any) {
-          failedCount++
-          console.error(`Failed to insert commit ${commit.hash}:`, error.message)
-          // Continue with next commit
+
+          branchHashes.push(commit.hash)
+
+          // Attribute commits from alias addresses to the canonical identity, keeping the
+          // original so that deleting the rule can restore it
+          const alias = aliases.get(commit.authorEmail)
+          if (alias) {
+            commit.originalAuthorName = commit.authorName
+            commit.originalAuthorEmail = commit.authorEmail
+            commit.authorEmail = alias.canonicalEmail
+            commit.authorName = alias.canonicalName
+          }
+
+          if (branch.name === defaultBranch) {
+            for (const change of commit.fileChanges) {
+              defaultBranchPaths.add(change.path)
+              if (change.changeType === 'renamed') defaultBranchPaths.add(change.oldPath!)
+            }
+          }
+
+          // Skip commits that already exist, on this or another branch
+          if (commitIds.has(commit.hash) || pending.some((c) => c.hash === commit.hash)) {
+            continue
+          }
+
+          pending.push(commit)
+          if (pending.length >= COMMIT_BATCH_SIZE) {
+            await flush()
+          }
+        }
+
+        await flush()
+
+        console.log(`Walked ${branchHashes.length} commits on ${branch.name}`)
+
+        // A full walk replaces whatever was linked to this branch before
+        if (!since) {
+          await prisma.branchCommit.deleteMany({ where: { branchId } })
+        }
+
+        const linkedIds = branchHashes
+          .map((hash) => commitIds.get(hash))
+          .filter((id): id is number => id !== undefined)
+        await prisma.branchCommit.createMany({
+          data: linkedIds.map((commitId) => ({ branchId, commitId })),
+          skipDuplicates: true,
+        })
+
+        // The default branch walk is capped, so commits this branch shares with it are linked
+        // to it here; otherwise old shared commits would count as unmerged
+        const defaultBranchId = branchIds.get(defaultBranch)
+        if (branch.name !== defaultBranch && defaultBranchId !== undefined) {
+          const unmerged = new Set(branch.unmergedHashes)
+          await prisma.branchCommit.createMany({
+            data: branchHashes
+              .filter((hash) => !unmerged.has(hash) && commitIds.has(hash))
+              .map((hash) => ({ branchId: defaultBranchId, commitId: commitIds.get(hash)! })),
+            skipDuplicates: true,
+          })
+        }
+
+        // Remember the head so the next run can start from it; a partial import is redone in full
+        if (branchFailedCount === 0) {
+          await prisma.branch.update({
+            where: { id: branchId },
+            data: { lastAnalyzedHash: branch.headHash },
+          })
         }
+
+        failedCount += branchFailedCount
+
+        const span = STAGE_PROGRESS.files - STAGE_PROGRESS.commits
+        await prisma.analysisRun.update({
+          where: { id: runId },
+          data: {
+            progress:
+              STAGE_PROGRESS.commits +
+              Math.floor(((orderedBranches.indexOf(branch) + 1) / orderedBranches.length) * span),
+          },
+        })
       }
 
-      console.log(`Commit insertion complete: ${insertedCount} inserted, ${failedCount} failed`)
+      console.log(
+        `Commit insertion complete: ${insertedCommits.length} inserted, ${failedCount} failed`
+      )
+
+      // Ingest tags and link each release to the commits it introduced
+      await enterStage('tags', { commitCount: insertedCommits.length })
+      console.log(`Analyzing tags for repository ${repositoryId}`)
+      const tags = await gitService.getTags()
+      const storedTags = await prisma.tag.findMany({ where: { repositoryId } })
+      const storedByName = new Map(storedTags.map((t) => [t.name, t]))
+
+      await prisma.tag.deleteMany({
+        where: { repositoryId, name: { notIn: tags.map((t) => t.name) } },
+      })
+
+      for (let i = 0; i < tags.length; i++) {
+        const tag = tags[i]
+        const previous = i > 0 ? tags[i - 1] : null
+        const stored = storedByName.get(tag.name)
+
+        // Releases keep their links unless the tag moved or its predecessor changed
+        const relink =
+          !stored ||
+          stored.targetHash !== tag.targetHash ||
+          stored.previousTag !== (previous?.name || null)
+
+        const data = {
+          targetHash: tag.targetHash,
+          isAnnotated: tag.isAnnotated,
+          message: tag.message,
+          taggerName: tag.taggerName,
+          taggerEmail: tag.taggerEmail,
+          taggedAt: tag.taggedAt,
+          previousTag: previous?.name || null,
+        }
+
+        const { id: tagId } = await prisma.tag.upsert({
+          where: { repositoryId_name: { repositoryId, name: tag.name } },
+          create: { ...data, name: tag.name, repositoryId },
+          update: data,
+        })
+
+        if (!relink) continue
+
+        const hashes = await gitService.getRevisions(previous?.targetHash || null, tag.targetHash)
+        const linkedIds = hashes
+          .map((hash) => commitIds.get(hash))
+          .filter((id): id is number => id !== undefined)
+
+        await prisma.tagCommit.deleteMany({ where: { tagId } })
+        for (let j = 0; j < linkedIds.length; j += 1000) {
+          await prisma.tagCommit.createMany({
+            data: linkedIds.slice(j, j + 1000).map((commitId) => ({ tagId, commitId })),
+            skipDuplicates: true,
+          })
+        }
+      }
 
-      // Analyze files
+      // Analyze files, limited to paths touched by new commits on re-analysis
+      await enterStage('files')
       console.log(`Analyzing file tree for repository ${repositoryId}`)
-      const files = await gitService.getFileTree()
+      // .gitattributes overrides can reclassify any file, so a change to one needs a full pass
+      const attributesChanged = [...defaultBranchPaths].some(
+        (filePath) => path.posix.basename(filePath) === '.gitattributes'
+      )
+      const changedPaths = incremental && !attributesChanged ? defaultBranchPaths : undefined
+      const tree = await gitService.readTree()
+      const files = await gitService.getFileTree(tree, changedPaths)
 
-      // Get existing file paths for this repository
       const existingFiles = await prisma.file.findMany({
-        where: { repositoryId },
-        select: { path: true },
+        where: {
+          repositoryId,
+          ...(changedPaths && { path: { in: [...changedPaths] } }),
+        },
+        select: {
+          id: true,
+          path: true,
+          size: true,
+          lines: true,
+          language: true,
+          isVendored: true,
+          isGenerated: true,
+        },
       })
-      const existingPaths = new Set(existingFiles.map((f) => f.path))
+      const existingByPath = new Map(existingFiles.map((f) => [f.path, f]))
+      const currentPaths = new Set(files.map((f) => f.path))
 
-      // Filter out files that already exist
-      const newFiles = files.filter((file) => !existingPaths.has(file.path))
+      // Drop files that no longer exist in the tree
+      const removedIds = existingFiles.filter((f) => !currentPaths.has(f.path)).map((f) => f.id)
+      if (removedIds.length > 0) {
+        await prisma.file.deleteMany({ where: { id: { in: removedIds } } })
+      }
+
+      const newFiles = files.filter((file) => !existingByPath.has(file.path))
 
       if (newFiles.length > 0) {
         // Batch insert new files in chunks of 500
@@ -212,6 +567,8 @@ export class RepositoryService {
               size: file.size,
               lines: file.lines,
               language: file.language,
+              isVendored: file.isVendored,
+              isGenerated: file.isGenerated,
               repositoryId,
             })),
             skipDuplicates: true,
@@ -222,38 +579,335 @@ export class RepositoryService {
         console.log(`No new files to insert for repository ${repositoryId}`)
       }
 
+      // Refresh files whose contents or classification changed
+      for (const file of files) {
+        const existing = existingByPath.get(file.path)
+        if (
+          existing &&
+          (existing.size !== file.size ||
+            existing.lines !== file.lines ||
+            existing.language !== file.language ||
+            existing.isVendored !== file.isVendored ||
+            existing.isGenerated !== file.isGenerated)
+        ) {
+          await prisma.file.update({
+            where: { id: existing.id },
+            data: {
+              size: file.size,
+              lines: file.lines,
+              language: file.language,
+              isVendored: file.isVendored,
+              isGenerated: file.isGenerated,
+            },
+          })
+        }
+      }
+
+      await this.linkFileChanges(repositoryId)
+
+      // Blame the current tree to see who owns the code as it stands
+      await enterStage('ownership', { fileCount: files.length })
+      console.log(`Analyzing code ownership for repository ${repositoryId}`)
+      const storedFiles = await prisma.file.findMany({
+        where: {
+          repositoryId,
+          ...(changedPaths && { path: { in: [...changedPaths] } }),
+        },
+        select: { id: true, path: true },
+      })
+      const fileIds = new Map(storedFiles.map((f) => [f.path, f.id]))
+
+      await prisma.fileOwnership.deleteMany({
+        where: { repositoryId, fileId: { in: storedFiles.map((f) => f.id) } },
+      })
+
+      // Vendored, generated and binary files are not owned by anyone in a meaningful sense
+      const blamedFiles = files.filter(
+        (file) => file.lines > 0 && !file.isVendored && !file.isGenerated && fileIds.has(file.path)
+      )
+      let ownershipRows: {
+        fileId: number
+        authorName: string
+        authorEmail: string
+        lines: number
+        repositoryId: number
+      }[] = []
+
+      for (const file of blamedFiles) {
+        if (signal?.aborted) {
+          throw new AnalysisCancelledError(runId)
+        }
+
+        let owners: BlameData[]
+        try {
+          owners = await gitService.blameFile(file.path)
+        } catch (error: any) {
+          console.error(`Failed to blame ${file.path}:`, error.message)
+          continue
+        }
+
+        // Fold alias addresses into their canonical identity
+        const byEmail = new Map<string, { name: string; lines: number }>()
+        for (const owner of owners) {
+          const alias = aliases.get(owner.email)
+          const email = alias ? alias.canonicalEmail : owner.email
+          const name = alias ? alias.canonicalName : owner.name
+          const entry = byEmail.get(email)
+          byEmail.set(email, { name, lines: (entry?.lines || 0) + owner.lines })
+        }
+
+        for (const [email, owner] of byEmail) {
+          ownershipRows.push({
+            fileId: fileIds.get(file.path)!,
+            authorName: owner.name,
+            authorEmail: email,
+            lines: owner.lines,
+            repositoryId,
+          })
+        }
+
+        if (ownershipRows.length >= 500) {
+          await prisma.fileOwnership.createMany({ data: ownershipRows })
+          ownershipRows = []
+        }
+      }
+
+      if (ownershipRows.length > 0) {
+        await prisma.fileOwnership.createMany({ data: ownershipRows })
+      }
+
+      // Static code metrics, measured while reading the tree
+      await enterStage('quality')
+      console.log(`Measuring code quality for repository ${repositoryId}`)
+      await prisma.fileMetric.deleteMany({
+        where: { repositoryId, fileId: { in: storedFiles.map((f) => f.id) } },
+      })
+
+      const metricRows = files
+        .filter((file) => file.metrics && fileIds.has(file.path))
+        .map((file) => ({
+          ...file.metrics!,
+          score: calculateQualityScore(file.metrics!).score,
+          fileId: fileIds.get(file.path)!,
+          repositoryId,
+        }))
+      for (let i = 0; i < metricRows.length; i += 500) {
+        await prisma.fileMetric.createMany({ data: metricRows.slice(i, i + 500) })
+      }
+
+      const storedMetrics = await prisma.fileMetric.findMany({ where: { repositoryId } })
+      const codeQuality =
+        storedMetrics.length > 0
+          ? calculateQualityScore(combineMetrics(storedMetrics)).score
+          : null
+
+      // Dependencies declared by manifests and lockfiles across the whole tree
+      await enterStage('dependencies')
+      console.log(`Parsing dependencies for repository ${repositoryId}`)
+      const manifests = gitService.getManifests(tree)
+      const dependencies = extractDependencies(manifests)
+
+      await prisma.$transaction([
+        prisma.dependency.deleteMany({ where: { repositoryId } }),
+        prisma.dependency.createMany({
+          data: dependencies.map((dependency) => ({ ...dependency, repositoryId })),
+        }),
+      ])
+
+      // Match dependencies against the locally imported advisories
+      await enterStage('vulnerabilities')
+      console.log(`Matching vulnerabilities for repository ${repositoryId}`)
+      await advisoryService.matchRepository(repositoryId)
+
+      // Leaked credentials in the tree and in the patches of newly ingested commits
+      await enterStage('secrets')
+      console.log(`Scanning for secrets in repository ${repositoryId}`)
+      const allowList = parseAllowList(
+        tree.find((file) => file.path === ALLOW_LIST_FILE)?.content ?? null
+      )
+      // A changed allow-list can affect any file, so it needs a full pass over the tree
+      const secretPaths =
+        incremental && !defaultBranchPaths.has(ALLOW_LIST_FILE) ? defaultBranchPaths : undefined
+
+      await prisma.secretFinding.deleteMany({
+        where: {
+          repositoryId,
+          source: 'tree',
+          ...(secretPaths && { path: { in: [...secretPaths] } }),
+        },
+      })
+
+      let secretRows: Prisma.SecretFindingCreateManyInput[] = []
+      const flushSecrets = async (force = false) => {
+        if (secretRows.length >= 500 || (force && secretRows.length > 0)) {
+          await prisma.secretFinding.createMany({ data: secretRows })
+          secretRows = []
+        }
+      }
+
+      for (const file of gitService.getTextFiles(tree, secretPaths)) {
+        if (signal?.aborted) {
+          throw new AnalysisCancelledError(runId)
+        }
+
+        const matches = scanContent(file.path, file.content, allowList)
+        if (matches.length === 0) continue
+
+        // Attribute each finding to the commit that last changed its line
+        let blamed = new Map<number, LineBlameData>()
+        try {
+          blamed = await gitService.blameLines(file.path, matches.map((match) => match.line))
+        } catch (error: any) {
+          console.error(`Failed to blame ${file.path}:`, error.message)
+        }
+
+        for (const match of matches) {
+          const author = blamed.get(match.line)
+          const alias = author ? aliases.get(author.email) : undefined
+          secretRows.push({
+            ...match,
+            path: file.path,
+            source: 'tree',
+            commitHash: author?.hash,
+            authorName: alias ? alias.canonicalName : author?.name,
+            authorEmail: alias ? alias.canonicalEmail : author?.email,
+            committedAt: author?.committedAt,
+            repositoryId,
+          })
+        }
+        await flushSecrets()
+      }
+
+      const ingested = new Map(insertedCommits.map((commit) => [commit.hash, commit]))
+      for await (const patch of gitService.streamAddedLines([...ingested.keys()])) {
+        if (signal?.aborted) {
+          throw new AnalysisCancelledError(runId)
+        }
+
+        const commit = ingested.get(patch.hash)
+        if (!commit) continue
+
+        for (const match of scanLines(patch.path, patch.lines, allowList)) {
+          secretRows.push({
+            ...match,
+            path: patch.path,
+            source: 'history',
+            commitHash: commit.hash,
+            authorName: commit.authorName,
+            authorEmail: commit.authorEmail,
+            committedAt: commit.committedAt,
+            repositoryId,
+          })
+        }
+        await flushSecrets()
+      }
+      await flushSecrets(true)
+
+      // Drop earlier findings the allow-list has since been extended to cover
+      const storedSecrets = await prisma.secretFinding.findMany({
+        where: { repositoryId },
+        select: { id: true, path: true, fingerprint: true },
+      })
+      const allowedIds = storedSecrets
+        .filter((finding) => isFindingAllowed(finding, allowList))
+        .map((finding) => finding.id)
+      if (allowedIds.length > 0) {
+        await prisma.secretFinding.deleteMany({ where: { id: { in: allowedIds } } })
+      }
+
+      // License files classified against the bundled license texts, and SPDX headers
+      await enterStage('licenses')
+      console.log(`Detecting licenses for repository ${repositoryId}`)
+      const licenseFiles = gitService.getLicenseFiles(tree).map((file) => ({
+        path: file.path,
+        match: classifyLicenseText(file.content),
+      }))
+
+      // Headers only change with the files that carry them
+      const headerPaths = incremental ? defaultBranchPaths : undefined
+      const headerRows: Prisma.LicenseFindingCreateManyInput[] = []
+      for (const file of gitService.getTextFiles(tree, headerPaths)) {
+        if (signal?.aborted) {
+          throw new AnalysisCancelledError(runId)
+        }
+
+        const license = findSpdxHeader(file.content)
+        if (license) {
+          headerRows.push({ path: file.path, license, source: 'header', repositoryId })
+        }
+      }
+
+      await prisma.$transaction([
+        prisma.licenseFinding.deleteMany({
+          where: {
+            repositoryId,
+            OR: [
+              { source: 'file' },
+              { source: 'header', ...(headerPaths && { path: { in: [...headerPaths] } }) },
+            ],
+          },
+        }),
+        prisma.licenseFinding.createMany({
+          data: [
+            ...licenseFiles.map((file) => ({
+              path: file.path,
+              license: file.match?.license,
+              confidence: file.match?.confidence,
+              source: 'file',
+              repositoryId,
+            })),
+            ...headerRows,
+          ],
+        }),
+      ])
+
+      const license = repositoryLicense(
+        licenseFiles
+          .filter((file) => !file.path.includes('/') && file.match)
+          .map((file) => file.match!.license),
+        extractDeclaredLicense(manifests)
+      )
+
       // Analyze contributors
+      await enterStage('contributors')
       console.log(`Analyzing contributors for repository ${repositoryId}`)
-      const contributors = await gitService.getContributors()
-      const totalContributions = contributors.reduce((sum, c) => sum + c.commits, 0)
+      const contributors = await this.contributorTotals(repositoryId)
 
       for (const contributor of contributors) {
-        const percentage = (contributor.commits / totalContributions) * 100
+        const data = {
+          name: contributor.name,
+          commits: contributor.commits,
+          additions: contributor.additions,
+          deletions: contributor.deletions,
+          firstCommit: contributor.firstCommit,
+          lastCommit: contributor.lastCommit,
+        }
 
-        await prisma.contributor.create({
-          data: {
-            name: contributor.name,
-            email: contributor.email,
-            commits: contributor.commits,
-            additions: contributor.additions,
-            deletions: contributor.deletions,
-            percentage,
-            firstCommit: contributor.firstCommit,
-            lastCommit: contributor.lastCommit,
-            repositoryId,
-          },
+        await prisma.contributor.upsert({
+          where: { repositoryId_email: { repositoryId, email: contributor.email } },
+          create: { ...data, email: contributor.email, repositoryId },
+          update: data,
         })
       }
 
-      // Detect languages
-      console.log(`Detecting languages for repository ${repositoryId}`)
-      const languages = await gitService.detectLanguages()
+      await this.recalculateContributorPercentages(repositoryId)
 
-      // Languages to ignore (config/data formats, not actual code)
-      const ignoredLanguages = ['JSON', 'YAML', 'Markdown', 'TOML', 'CSV']
+      // Aggregate languages from the stored file rows, leaving out vendored and generated code
+      await enterStage('languages')
+      console.log(`Detecting languages for repository ${repositoryId}`)
+      const languageTotals = await prisma.file.groupBy({
+        by: ['language'],
+        where: { repositoryId, language: { not: null }, isVendored: false, isGenerated: false },
+        _sum: { size: true, lines: true },
+      })
+      const languages = languageTotals.map((group) => ({
+        name: group.language!,
+        bytes: group._sum.size || 0,
+        lines: group._sum.lines || 0,
+      }))
 
-      // Filter out ignored languages
-      const filteredLanguages = languages.filter((lang) => !ignoredLanguages.includes(lang.name))
+      // Only programming and markup languages count, not data formats or prose
+      const filteredLanguages = languages.filter((lang) => isStatsLanguage(lang.name))
 
       // Recalculate percentages based on remaining languages only
       const totalBytes = filteredLanguages.reduce((sum, lang) => sum + lang.bytes, 0)
@@ -278,17 +932,19 @@ export class RepositoryService {
         percentage: roundedPercentages[index],
       }))
 
-      for (const language of languagesWithAdjustedPercentage) {
-        await prisma.language.create({
-          data: {
+      await prisma.$transaction([
+        prisma.language.deleteMany({ where: { repositoryId } }),
+        prisma.language.createMany({
+          data: languagesWithAdjustedPercentage.map((language) => ({
             name: language.name,
             percentage: language.percentage,
             bytes: language.bytes,
             lines: language.lines,
+            color: getLanguageColor(language.name),
             repositoryId,
-          },
-        })
-      }
+          })),
+        }),
+      ])
 
       // Update repository with final data
       await prisma.repository.update({
@@ -298,29 +954,295 @@ export class RepositoryService {
           lastAnalyzedAt: new Date(),
           defaultBranch,
           size: size,
+          codeQuality,
+          license,
+        },
+      })
+
+      await prisma.analysisRun.update({
+        where: { id: runId },
+        data: {
+          status: 'completed',
+          stage: 'done',
+          progress: STAGE_PROGRESS.done,
+          finishedAt: new Date(),
         },
       })
 
       console.log(`Repository ${repositoryId} analysis completed`)
     } catch (error: any) {
-      console.error(`Error analyzing repository ${repositoryId}:`, error)
+      const cancelled = error instanceof AnalysisCancelledError
+
+      if (cancelled) {
+        console.log(`Analysis run ${runId} for repository ${repositoryId} cancelled`)
+      } else {
+        console.error(`Error analyzing repository ${repositoryId}:`, error)
+      }
+
       await prisma.repository.update({
         where: { id: repositoryId },
-        data: { status: 'failed' },
+        data: {
+          status: cancelled ? await this.statusBeforeRun(repositoryId, runId) : 'failed',
+        },
       })
-      throw error
+      await prisma.analysisRun.update({
+        where: { id: runId },
+        data: {
+          status: cancelled ? 'cancelled' : 'failed',
+          error: cancelled ? null : error.message,
+          finishedAt: new Date(),
+        },
+      })
+
+      if (!cancelled) {
+        throw error
+      }
     } finally {
-      // Cleanup cloned repository
+      // Cleanup the worktree and let the mirror be evicted again
       if (gitService) {
         await gitService.cleanup()
       }
+      if (mirrorHeld) {
+        mirrorStore.release(repositoryId)
+      }
     }
   }
 
   /**
-   * Get repository with all related data
+   * Insert a batch of commits and their file changes, returning the new ids by hash
    */
-  async getRepository(id: number, userId: number) {
+  private async insertCommitBatch(repositoryId: number, commits: CommitData[]) {
+    return prisma.$transaction(async (tx) => {
+      const created = await tx.commit.createManyAndReturn({
+        data: commits.map((commit) => ({
+          hash: commit.hash,
+          shortHash: commit.shortHash,
+          message: commit.message,
+          description: commit.description,
+          type: parseCommitMessage(commit.message).type,
+          authorName: commit.authorName,
+          authorEmail: commit.authorEmail,
+          originalAuthorName: commit.originalAuthorName,
+          originalAuthorEmail: commit.originalAuthorEmail,
+          committedAt: commit.committedAt,
+          timezoneOffset: commit.timezoneOffset,
+          branch: commit.branch,
+          additions: commit.additions,
+          deletions: commit.deletions,
+          filesChanged: commit.filesChanged,
+          repositoryId,
+        })),
+        select: { id: true, hash: true },
+      })
+      const ids = new Map(created.map((c) => [c.hash, c.id]))
+
+      // Store file changes
+      await tx.fileChange.createMany({
+        data: commits.flatMap((commit) =>
+          commit.fileChanges.map((change) => ({
+            path: change.path,
+            oldPath: change.oldPath,
+            additions: change.additions,
+            deletions: change.deletions,
+            changeType: change.changeType,
+            commitId: ids.get(commit.hash)!,
+          }))
+        ),
+      })
+
+      return ids
+    })
+  }
+
+  /**
+   * Point unlinked file changes at the File row they belong to today,
+   * following renames so older changes under a previous path are linked too
+   */
+  private async linkFileChanges(repositoryId: number) {
+    const changes = await prisma.fileChange.findMany({
+      where: {
+        commit: { repositoryId },
+        OR: [{ fileId: null }, { changeType: 'renamed' }],
+      },
+      select: {
+        id: true,
+        path: true,
+        oldPath: true,
+        changeType: true,
+        fileId: true,
+        commit: { select: { committedAt: true } },
+      },
+      orderBy: [{ commit: { committedAt: 'desc' } }, { id: 'desc' }],
+    })
+
+    if (changes.length === 0) return
+
+    const files = await prisma.file.findMany({
+      where: { repositoryId },
+      select: { id: true, path: true },
+    })
+    const fileIds = new Map(files.map((f) => [f.path, f.id]))
+
+    // Walk newest to oldest; once a rename is seen, earlier changes to its old path map to the new one
+    const currentPath = new Map<string, string>()
+    const idsByFile = new Map<number, number[]>()
+
+    for (const change of changes) {
+      const resolvedPath = currentPath.get(change.path) || change.path
+      const fileId = fileIds.get(resolvedPath)
+
+      if (fileId && change.fileId === null) {
+        const ids = idsByFile.get(fileId) || []
+        ids.push(change.id)
+        idsByFile.set(fileId, ids)
+      }
+
+      if (change.changeType === 'renamed' && change.oldPath) {
+        currentPath.set(change.oldPath, resolvedPath)
+      }
+    }
+
+    for (const [fileId, ids] of idsByFile) {
+      await prisma.fileChange.updateMany({
+        where: { id: { in: ids } },
+        data: { fileId },
+      })
+    }
+  }
+
+  /**
+   * Combine contributor totals whose email is an alias into the canonical contributor
+   */
+  private foldContributorAliases(
+    contributors: ContributorData[],
+    aliases: Map<string, { canonicalEmail: string; canonicalName: string }>
+  ): ContributorData[] {
+    const folded = new Map<string, ContributorData>()
+
+    for (const contributor of contributors) {
+      const alias = aliases.get(contributor.email)
+      const email = alias ? alias.canonicalEmail : contributor.email
+      const existing = folded.get(email)
+
+      if (!existing) {
+        folded.set(email, {
+          ...contributor,
+          email,
+          name: alias ? alias.canonicalName : contributor.name,
+        })
+        continue
+      }
+
+      existing.commits += contributor.commits
+      existing.additions += contributor.additions
+      existing.deletions += contributor.deletions
+      if (contributor.firstCommit < existing.firstCommit) {
+        existing.firstCommit = contributor.firstCommit
+      }
+      if (contributor.lastCommit > existing.lastCommit) {
+        existing.lastCommit = contributor.lastCommit
+      }
+      if (alias) {
+        existing.name = alias.canonicalName
+      }
+    }
+
+    return Array.from(folded.values())
+  }
+
+  /**
+   * Recompute each contributor's share of all commits in a repository
+   */
+  private async recalculateContributorPercentages(repositoryId: number) {
+    const contributors = await prisma.contributor.findMany({
+      where: { repositoryId },
+      select: { id: true, commits: true },
+    })
+    const totalContributions = contributors.reduce((sum, c) => sum + c.commits, 0)
+
+    for (const contributor of contributors) {
+      await prisma.contributor.update({
+        where: { id: contributor.id },
+        data: {
+          percentage:
+            totalContributions > 0 ? (contributor.commits / totalContributions) * 100 : 0,
+        },
+      })
+    }
+  }
+
+  /**
+   * Authorship totals from the stored commits, so full and incremental runs count the same
+   * commits as the commits table
+   */
+  private async contributorTotals(repositoryId: number): Promise<ContributorData[]> {
+    const [totals, latest] = await Promise.all([
+      prisma.commit.groupBy({
+        by: ['authorEmail'],
+        where: { repositoryId },
+        _count: { _all: true },
+        _sum: { additions: true, deletions: true },
+        _min: { committedAt: true },
+        _max: { committedAt: true },
+      }),
+      // Name each contributor after their most recent commit
+      prisma.commit.findMany({
+        where: { repositoryId },
+        distinct: ['authorEmail'],
+        orderBy: [{ authorEmail: 'asc' }, { committedAt: 'desc' }],
+        select: { authorEmail: true, authorName: true },
+      }),
+    ])
+
+    const names = new Map(latest.map((commit) => [commit.authorEmail, commit.authorName]))
+
+    return totals.map((total) => ({
+      name: names.get(total.authorEmail) || total.authorEmail,
+      email: total.authorEmail,
+      commits: total._count._all,
+      additions: total._sum.additions || 0,
+      deletions: total._sum.deletions || 0,
+      firstCommit: total._min.committedAt!,
+      lastCommit: total._max.committedAt!,
+    }))
+  }
+
+  /**
+   * Move blamed lines of alias addresses onto the primary contributor
+   */
+  private async mergeOwnership(
+    repositoryId: number,
+    primaryEmail: string,
+    aliasEmails: string[],
+    name: string
+  ) {
+    const rows = await prisma.fileOwnership.findMany({
+      where: { repositoryId, authorEmail: { in: [primaryEmail, ...aliasEmails] } },
+    })
+
+    const linesByFile = new Map<number, number>()
+    for (const row of rows) {
+      linesByFile.set(row.fileId, (linesByFile.get(row.fileId) || 0) + row.lines)
+    }
+
+    await prisma.$transaction([
+      prisma.fileOwnership.deleteMany({ where: { id: { in: rows.map((r) => r.id) } } }),
+      prisma.fileOwnership.createMany({
+        data: [...linesByFile].map(([fileId, lines]) => ({
+          fileId,
+          authorName: name,
+          authorEmail: primaryEmail,
+          lines,
+          repositoryId,
+        })),
+      }),
+    ])
+  }
+
+  /**
+   * Get repository with all related data
+   */
+  async getRepository(id: number, userId: number) {
     const repository = await prisma.repository.findFirst({
       where: {
         id,
@@ -335,6 +1257,9 @@ export class RepositoryService {
           take: 100,
           include: {
             fileChanges: true,
+            branches: {
+              select: { branch: { select: { name: true } } },
+            },
           },
         },
         contributors: {
@@ -350,7 +1275,53 @@ export class RepositoryService {
       },
     })
 
-    return repository
+    if (!repository) {
+      return null
+    }
+
+    const defaultBranch = repository.branches.find((b) => b.isDefault)
+
+    // Commits reachable from each branch but not from the default branch
+    const branches = await Promise.all(
+      repository.branches.map(async (branch) => {
+        if (!defaultBranch || branch.id === defaultBranch.id) {
+          return { ...branch, unmergedCount: 0, unmergedCommits: [] }
+        }
+
+        const where = {
+          repositoryId: id,
+          branches: { some: { branchId: branch.id } },
+          NOT: { branches: { some: { branchId: defaultBranch.id } } },
+        }
+
+        const [unmergedCount, unmergedCommits] = await Promise.all([
+          prisma.commit.count({ where }),
+          prisma.commit.findMany({
+            where,
+            orderBy: { committedAt: 'desc' },
+            take: 20,
+            select: {
+              hash: true,
+              shortHash: true,
+              message: true,
+              authorName: true,
+              committedAt: true,
+            },
+          }),
+        ])
+
+        return { ...branch, unmergedCount, unmergedCommits }
+      })
+    )
+
+    return {
+      ...repository,
+      branches,
+      commits: repository.commits.map((commit) => ({
+        ...commit,
+        branches: commit.branches.map((b) => b.branch.name),
+      })),
+    }
   }
 
   /**
@@ -391,10 +1362,21 @@ export class RepositoryService {
       throw new Error('Repository not found')
     }
 
+    // Stop analyses still running here; the mirror is removed once they release it
+    const runs = await prisma.analysisRun.findMany({
+      where: { repositoryId: id, status: 'running' },
+      select: { id: true },
+    })
+    for (const run of runs) {
+      this.activeRuns.get(run.id)?.abort()
+    }
+
     await prisma.repository.delete({
       where: { id },
     })
 
+    await mirrorStore.remove(id)
+
     return { success: true }
   }
 
@@ -437,7 +1419,1670 @@ export class RepositoryService {
       recentActivity,
       status: repository.status,
       lastAnalyzedAt: repository.lastAnalyzedAt,
+      codeQuality: repository.codeQuality,
+    }
+  }
+
+  /**
+   * List commits newest first, one page at a time.
+   * `nextCursor` is passed back as `cursor` to fetch the following page.
+   */
+  async listCommits(id: number, userId: number, filters: CommitFilters) {
+    const repository = await prisma.repository.findFirst({
+      where: { id, userId },
+    })
+
+    if (!repository) {
+      throw new Error('Repository not found')
+    }
+
+    const conditions: Prisma.CommitWhereInput[] = [{ repositoryId: id }]
+
+    if (filters.author) {
+      conditions.push(this.commitAuthorWhere(filters.author))
+    }
+
+    if (filters.since || filters.until) {
+      conditions.push({ committedAt: { gte: filters.since, lte: filters.until } })
+    }
+
+    if (filters.branch) {
+      conditions.push({ branches: { some: { branch: { name: filters.branch } } } })
+    }
+
+    if (filters.path) {
+      conditions.push({
+        fileChanges: {
+          some: {
+            OR: [{ path: { startsWith: filters.path } }, { oldPath: { startsWith: filters.path } }],
+          },
+        },
+      })
+    }
+
+    if (filters.message) {
+      conditions.push({
+        OR: [
+          { message: { contains: filters.message, mode: 'insensitive' } },
+          { description: { contains: filters.message, mode: 'insensitive' } },
+        ],
+      })
+    }
+
+    if (filters.type) {
+      conditions.push({ type: filters.type })
+    }
+
+    const rows = await prisma.commit.findMany({
+      where: { AND: conditions },
+      orderBy: [{ committedAt: 'desc' }, { id: 'desc' }],
+      take: filters.limit + 1,
+      ...(filters.cursor && { cursor: { id: filters.cursor }, skip: 1 }),
+      include: {
+        branches: {
+          select: { branch: { select: { name: true } } },
+        },
+      },
+    })
+
+    const hasMore = rows.length > filters.limit
+    const page = rows.slice(0, filters.limit)
+
+    const commits = page.map(({ branches, ...commit }) => ({
+      ...commit,
+      ...parseCommitMessage(commit.message),
+      branches: branches.map((b) => b.branch.name),
+    }))
+
+    return {
+      commits,
+      nextCursor: hasMore ? page[page.length - 1].id : null,
+    }
+  }
+
+  /**
+   * Match commits by exact author email or part of the author name
+   */
+  private commitAuthorWhere(author: string): Prisma.CommitWhereInput {
+    return {
+      OR: [
+        { authorEmail: { equals: author, mode: 'insensitive' } },
+        { authorName: { contains: author, mode: 'insensitive' } },
+      ],
+    }
+  }
+
+  /**
+   * Commits, line changes and active authors per day, week or month.
+   * With a path prefix, only line changes to matching files are counted.
+   */
+  async getActivity(
+    id: number,
+    userId: number,
+    options: {
+      granularity: ActivityGranularity
+      timeZone: string
+      since?: Date
+      until?: Date
+      author?: string
+      path?: string
+    }
+  ) {
+    const repository = await prisma.repository.findFirst({
+      where: { id, userId },
+    })
+
+    if (!repository) {
+      throw new Error('Repository not found')
+    }
+
+    const where: Prisma.CommitWhereInput = {
+      repositoryId: id,
+      committedAt: { gte: options.since, lte: options.until },
+      ...(options.author && this.commitAuthorWhere(options.author)),
+    }
+
+    let commits: { additions: number; deletions: number; authorEmail: string; committedAt: Date }[]
+
+    if (options.path) {
+      const changes = await prisma.fileChange.findMany({
+        where: {
+          commit: where,
+          OR: [{ path: { startsWith: options.path } }, { oldPath: { startsWith: options.path } }],
+        },
+        select: {
+          commitId: true,
+          additions: true,
+          deletions: true,
+          commit: { select: { authorEmail: true, committedAt: true } },
+        },
+      })
+
+      // Sum the matching file changes of each commit
+      const byCommit = new Map<number, (typeof commits)[number]>()
+      for (const change of changes) {
+        const commit = byCommit.get(change.commitId) || {
+          additions: 0,
+          deletions: 0,
+          authorEmail: change.commit.authorEmail,
+          committedAt: change.commit.committedAt,
+        }
+        commit.additions += change.additions
+        commit.deletions += change.deletions
+        byCommit.set(change.commitId, commit)
+      }
+      commits = [...byCommit.values()]
+    } else {
+      commits = await prisma.commit.findMany({
+        where,
+        select: { additions: true, deletions: true, authorEmail: true, committedAt: true },
+      })
+    }
+
+    const buckets = calculateActivity(commits, {
+      granularity: options.granularity,
+      timeZone: options.timeZone,
+      from: options.since,
+      to: options.until,
+    })
+
+    return {
+      granularity: options.granularity,
+      timeZone: options.timeZone,
+      since: options.since || null,
+      until: options.until || null,
+      buckets,
+      totals: {
+        commits: commits.length,
+        additions: commits.reduce((sum, c) => sum + c.additions, 0),
+        deletions: commits.reduce((sum, c) => sum + c.deletions, 0),
+        authors: new Set(commits.map((c) => c.authorEmail)).size,
+      },
+    }
+  }
+
+  /**
+   * Commits per weekday and hour, in the authors' own time zones (`local`) or a given one,
+   * with the share of commits made outside working hours overall and per author
+   */
+  async getPunchcard(
+    id: number,
+    userId: number,
+    options: {
+      timeZone: string
+      workingHours: WorkingHours
+      since?: Date
+      until?: Date
+      author?: string
+    }
+  ) {
+    const repository = await prisma.repository.findFirst({
+      where: { id, userId },
+    })
+
+    if (!repository) {
+      throw new Error('Repository not found')
+    }
+
+    const commits = await prisma.commit.findMany({
+      where: {
+        repositoryId: id,
+        committedAt: { gte: options.since, lte: options.until },
+        ...(options.author && this.commitAuthorWhere(options.author)),
+      },
+      select: { authorName: true, authorEmail: true, committedAt: true, timezoneOffset: true },
+    })
+
+    const punchcardOptions = { timeZone: options.timeZone, workingHours: options.workingHours }
+    const byAuthor = new Map<string, typeof commits>()
+    for (const commit of commits) {
+      const authorCommits = byAuthor.get(commit.authorEmail)
+      if (authorCommits) authorCommits.push(commit)
+      else byAuthor.set(commit.authorEmail, [commit])
+    }
+
+    return {
+      timeZone: options.timeZone,
+      workingHours: options.workingHours,
+      since: options.since || null,
+      until: options.until || null,
+      ...calculatePunchcard(commits, punchcardOptions),
+      authors: [...byAuthor.values()]
+        .map((authored) => {
+          const punchcard = calculatePunchcard(authored, punchcardOptions)
+          return {
+            name: authored[0].authorName,
+            email: authored[0].authorEmail,
+            commits: punchcard.total,
+            outsideWorkingHours: punchcard.outsideWorkingHours,
+            outsideWorkingHoursPercentage: punchcard.outsideWorkingHoursPercentage,
+          }
+        })
+        .sort((a, b) => b.outsideWorkingHours - a.outsideWorkingHours || b.commits - a.commits),
+    }
+  }
+
+  /**
+   * Get a single commit by full or abbreviated hash, with its file changes
+   */
+  async getCommit(id: number, userId: number, hash: string) {
+    const repository = await prisma.repository.findFirst({
+      where: { id, userId },
+    })
+
+    if (!repository) {
+      throw new Error('Repository not found')
+    }
+
+    const matches = await prisma.commit.findMany({
+      where: { repositoryId: id, hash: { startsWith: hash.toLowerCase() } },
+      take: 2,
+      include: {
+        fileChanges: { orderBy: { path: 'asc' } },
+        branches: {
+          select: { branch: { select: { name: true } } },
+        },
+      },
+    })
+
+    if (matches.length === 0) {
+      throw new Error('Commit not found')
+    }
+
+    if (matches.length > 1) {
+      throw new Error('Ambiguous commit hash')
+    }
+
+    const { branches, ...commit } = matches[0]
+
+    return {
+      ...commit,
+      ...parseCommitMessage(commit.message),
+      branches: branches.map((b) => b.branch.name),
+    }
+  }
+
+  /**
+   * Every commit that touched a file, following renames back to where the file was created,
+   * with the file's line count after each commit
+   */
+  async getFileHistory(id: number, userId: number, filePath: string) {
+    const repository = await prisma.repository.findFirst({
+      where: { id, userId },
+    })
+
+    if (!repository) {
+      throw new Error('Repository not found')
+    }
+
+    const target = filePath.replace(/^\/+/, '')
+    const file = await prisma.file.findUnique({
+      where: { repositoryId_path: { repositoryId: id, path: target } },
+      select: { path: true, lines: true, language: true },
+    })
+
+    const commitSelect = {
+      id: true,
+      hash: true,
+      shortHash: true,
+      message: true,
+      authorName: true,
+      authorEmail: true,
+      committedAt: true,
+    }
+    type CommitOrder = { committedAt: Date; id: number }
+    const newestFirst = (a: CommitOrder, b: CommitOrder) =>
+      b.committedAt.getTime() - a.committedAt.getTime() || b.id - a.id
+
+    const loadChanges = (changePath: string) =>
+      prisma.fileChange.findMany({
+        where: { path: changePath, commit: { repositoryId: id } },
+        include: { commit: { select: commitSelect } },
+      })
+    type HistoryChange = Awaited<ReturnType<typeof loadChanges>>[number]
+
+    // Walk back through the paths the file had, stopping where it was added
+    const history: HistoryChange[] = []
+    const lineage: { path: string; since: Date | null; until: Date | null }[] = []
+    let currentPath: string | null = target
+    let before: CommitOrder | null = null
+    let created = false
+
+    while (currentPath && lineage.length < 100) {
+      const changes = (await loadChanges(currentPath))
+        .filter((change) => !before || newestFirst(before, change.commit) < 0)
+        .sort((a, b) => newestFirst(a.commit, b.commit))
+
+      const segment: HistoryChange[] = []
+      let origin: HistoryChange | null = null
+
+      for (const change of changes) {
+        segment.push(change)
+        if (['added', 'renamed', 'copied'].includes(change.changeType)) {
+          origin = change
+          break
+        }
+      }
+
+      history.push(...segment)
+      lineage.push({
+        path: currentPath,
+        since: segment[segment.length - 1]?.commit.committedAt || null,
+        until: segment[0]?.commit.committedAt || null,
+      })
+
+      if (origin?.oldPath && origin.changeType !== 'added') {
+        currentPath = origin.oldPath
+        before = origin.commit
+      } else {
+        created = origin?.changeType === 'added'
+        currentPath = null
+      }
+    }
+
+    if (history.length === 0 && !file) {
+      throw new Error('File not found')
+    }
+
+    // Line counts are exact when replayed from creation, otherwise anchored at today's size
+    const oldestFirst = [...history].reverse()
+    const linesAfter: number[] = []
+    if (created) {
+      let lines = 0
+      for (const change of oldestFirst) {
+        lines = change.changeType === 'deleted' ? 0 : lines + change.additions - change.deletions
+        linesAfter.push(lines)
+      }
+    } else {
+      let lines = file?.lines || 0
+      for (let i = oldestFirst.length - 1; i >= 0; i--) {
+        linesAfter[i] = lines
+        lines = Math.max(lines - oldestFirst[i].additions + oldestFirst[i].deletions, 0)
+      }
     }
+
+    const authors = new Map<
+      string,
+      { name: string; email: string; commits: number; additions: number; deletions: number }
+    >()
+    for (const change of history) {
+      const author = authors.get(change.commit.authorEmail) || {
+        name: change.commit.authorName,
+        email: change.commit.authorEmail,
+        commits: 0,
+        additions: 0,
+        deletions: 0,
+      }
+      author.commits++
+      author.additions += change.additions
+      author.deletions += change.deletions
+      authors.set(author.email, author)
+    }
+
+    return {
+      path: target,
+      exists: !!file,
+      language: file?.language || null,
+      lines: file?.lines || 0,
+      lineage: lineage.filter((entry) => entry.until),
+      commits: oldestFirst
+        .map((change, index) => ({
+          hash: change.commit.hash,
+          shortHash: change.commit.shortHash,
+          message: change.commit.message,
+          authorName: change.commit.authorName,
+          authorEmail: change.commit.authorEmail,
+          committedAt: change.commit.committedAt,
+          path: change.path,
+          oldPath: change.oldPath,
+          changeType: change.changeType,
+          additions: change.additions,
+          deletions: change.deletions,
+          linesAfter: linesAfter[index],
+        }))
+        .reverse(),
+      timeline: oldestFirst.map((change, index) => ({
+        hash: change.commit.hash,
+        committedAt: change.commit.committedAt,
+        lines: linesAfter[index],
+      })),
+      authors: [...authors.values()]
+        .map((author) => ({ ...author, netLines: author.additions - author.deletions }))
+        .sort((a, b) => b.netLines - a.netLines),
+    }
+  }
+
+  /**
+   * Rank current files and directories by change frequency times size within a time window
+   */
+  async getHotspots(
+    id: number,
+    userId: number,
+    options: { since?: Date; until?: Date; sort: keyof Hotspot; limit: number }
+  ) {
+    const repository = await prisma.repository.findFirst({
+      where: { id, userId },
+    })
+
+    if (!repository) {
+      throw new Error('Repository not found')
+    }
+
+    // File changes are linked to today's File rows across renames
+    const [changeTotals, files] = await Promise.all([
+      prisma.fileChange.groupBy({
+        by: ['fileId'],
+        where: {
+          fileId: { not: null },
+          commit: {
+            repositoryId: id,
+            committedAt: { gte: options.since, lte: options.until },
+          },
+        },
+        _count: { _all: true },
+        _sum: { additions: true, deletions: true },
+      }),
+      prisma.file.findMany({
+        where: { repositoryId: id, isVendored: false, isGenerated: false },
+        select: { id: true, path: true, name: true, size: true, lines: true },
+      }),
+    ])
+
+    const totalsByFile = new Map(changeTotals.map((total) => [total.fileId!, total]))
+    const activity = new Map<string, { changes: number; churn: number }>()
+    for (const file of files) {
+      const total = totalsByFile.get(file.id)
+      if (total) {
+        activity.set(file.path, {
+          changes: total._count._all,
+          churn: (total._sum.additions || 0) + (total._sum.deletions || 0),
+        })
+      }
+    }
+
+    const hotspots = calculateHotspots(files, activity)
+    const bySort = (a: Hotspot, b: Hotspot) =>
+      options.sort === 'path' || options.sort === 'name'
+        ? a[options.sort].localeCompare(b[options.sort])
+        : (b[options.sort] as number) - (a[options.sort] as number)
+
+    return {
+      since: options.since || null,
+      until: options.until || null,
+      files: [...hotspots].sort(bySort).slice(0, options.limit),
+      directories: aggregateDirectoryHotspots(hotspots).sort(bySort).slice(0, options.limit),
+      tree: buildHotspotTree(hotspots),
+    }
+  }
+
+  /**
+   * Temporal coupling between current files and between directories: paths that keep
+   * changing in the same commits. Commits touching more than `maxFilesPerCommit` files,
+   * such as mass renames or formatting passes, are left out.
+   */
+  async getCoupling(
+    id: number,
+    userId: number,
+    options: {
+      path?: string
+      since?: Date
+      until?: Date
+      minCoChanges: number
+      minConfidence: number
+      maxFilesPerCommit: number
+      limit: number
+    }
+  ) {
+    const repository = await prisma.repository.findFirst({
+      where: { id, userId },
+    })
+
+    if (!repository) {
+      throw new Error('Repository not found')
+    }
+
+    const target = (options.path || '').replace(/^\/+|\/+$/g, '')
+
+    // File changes are linked to today's File rows across renames
+    const [changes, files] = await Promise.all([
+      prisma.fileChange.findMany({
+        where: {
+          fileId: { not: null },
+          commit: {
+            repositoryId: id,
+            committedAt: { gte: options.since, lte: options.until },
+          },
+        },
+        select: { commitId: true, fileId: true },
+      }),
+      prisma.file.findMany({
+        where: { repositoryId: id, isVendored: false, isGenerated: false },
+        select: { id: true, path: true },
+      }),
+    ])
+
+    if (target && !files.some((f) => f.path === target || f.path.startsWith(`${target}/`))) {
+      throw new Error('Path not found')
+    }
+
+    const pathsById = new Map(files.map((f) => [f.id, f.path]))
+    const commits = new Map<number, string[]>()
+    for (const change of changes) {
+      const filePath = pathsById.get(change.fileId!)
+      if (filePath) {
+        const commitPaths = commits.get(change.commitId)
+        if (commitPaths) commitPaths.push(filePath)
+        else commits.set(change.commitId, [filePath])
+      }
+    }
+
+    const fileSets = [...commits.values()].filter((set) => set.length <= options.maxFilesPerCommit)
+    // Directories changed together: the parent directory of each file, root files excluded
+    const directorySets = fileSets.map((set) =>
+      set
+        .filter((filePath) => filePath.includes('/'))
+        .map((filePath) => path.posix.dirname(filePath))
+    )
+
+    const focus = target
+      ? (entry: string) => entry === target || entry.startsWith(`${target}/`)
+      : undefined
+    const couplingOptions = {
+      minCoChanges: options.minCoChanges,
+      minConfidence: options.minConfidence,
+      focus,
+    }
+
+    return {
+      path: target,
+      since: options.since || null,
+      until: options.until || null,
+      commits: fileSets.length,
+      excludedCommits: commits.size - fileSets.length,
+      files: calculateCoupling(fileSets, couplingOptions).slice(0, options.limit),
+      directories: calculateCoupling(directorySets, couplingOptions).slice(0, options.limit),
+    }
+  }
+
+  /**
+   * Bus factor and knowledge concentration: who the code depends on, and which files and
+   * directories are only known by authors inactive for `inactiveDays`
+   */
+  async getBusFactor(id: number, userId: number, inactiveDays: number, recentDays: number) {
+    const repository = await prisma.repository.findFirst({
+      where: { id, userId },
+    })
+
+    if (!repository) {
+      throw new Error('Repository not found')
+    }
+
+    // Changes per author and current file, counting only a file's recent authors: those who
+    // changed it within `recentDays` of its last change
+    const [changes, contributors] = await Promise.all([
+      prisma.$queryRaw<{ path: string; authorEmail: string; changes: number }[]>`
+        SELECT path, author_email AS "authorEmail", COUNT(*)::int AS changes
+        FROM (
+          SELECT f.path, c.author_email, c.committed_at,
+            MAX(c.committed_at) OVER (PARTITION BY f.id) AS last_change
+          FROM file_changes fc
+          JOIN commits c ON c.id = fc.commit_id
+          JOIN files f ON f.id = fc.file_id
+          WHERE c.repository_id = ${id} AND NOT f.is_vendored AND NOT f.is_generated
+        ) recent
+        WHERE committed_at >= last_change - ${recentDays}::int * INTERVAL '1 day'
+        GROUP BY path, author_email
+      `,
+      prisma.contributor.findMany({
+        where: { repositoryId: id },
+        select: { name: true, email: true, lastCommit: true },
+      }),
+    ])
+
+    const changesByFile = new Map<string, Map<string, number>>()
+    for (const change of changes) {
+      let authors = changesByFile.get(change.path)
+      if (!authors) {
+        authors = new Map<string, number>()
+        changesByFile.set(change.path, authors)
+      }
+      authors.set(change.authorEmail, change.changes)
+    }
+
+    const holdersByFile = new Map(
+      [...changesByFile].map(([filePath, authors]) => [filePath, getKnowledgeHolders(authors)])
+    )
+    const { busFactor, keyAuthors } = calculateBusFactor(holdersByFile)
+
+    const cutoff = new Date(Date.now() - inactiveDays * 24 * 60 * 60 * 1000)
+    const contributorsByEmail = new Map(contributors.map((c) => [c.email, c]))
+    const isInactive = (email: string) => {
+      const contributor = contributorsByEmail.get(email)
+      return !contributor || contributor.lastCommit < cutoff
+    }
+    const describe = (email: string) => {
+      const contributor = contributorsByEmail.get(email)
+      return {
+        name: contributor?.name || email,
+        email,
+        lastCommit: contributor?.lastCommit || null,
+        inactive: isInactive(email),
+      }
+    }
+
+    // Files whose recent knowledge holders have all gone quiet
+    const atRiskFiles = [...holdersByFile]
+      .filter(([, holders]) => holders.every(isInactive))
+      .map(([filePath, holders]) => ({
+        path: filePath,
+        singleOwner: holders.length === 1,
+        holders: holders.map(describe),
+      }))
+      .sort((a, b) => a.path.localeCompare(b.path))
+    const atRiskPaths = new Set(atRiskFiles.map((file) => file.path))
+
+    // Roll files up into every containing directory
+    const directories = new Map<string, { files: number; atRiskFiles: number }>()
+    for (const filePath of holdersByFile.keys()) {
+      const parts = filePath.split('/').slice(0, -1)
+      for (let i = 1; i <= parts.length; i++) {
+        const dirPath = parts.slice(0, i).join('/')
+        const directory = directories.get(dirPath) || { files: 0, atRiskFiles: 0 }
+        directory.files++
+        if (atRiskPaths.has(filePath)) directory.atRiskFiles++
+        directories.set(dirPath, directory)
+      }
+    }
+
+    const atRiskDirectories = [...directories]
+      .map(([dirPath, counts]) => ({
+        path: dirPath,
+        ...counts,
+        atRiskShare: Math.round((counts.atRiskFiles / counts.files) * 10000) / 100,
+      }))
+      .filter((directory) => directory.atRiskShare >= 50)
+      .sort((a, b) => b.atRiskShare - a.atRiskShare || b.files - a.files)
+
+    return {
+      busFactor,
+      inactiveDays,
+      recentDays,
+      totalFiles: holdersByFile.size,
+      keyAuthors: keyAuthors.map((email) => ({
+        ...describe(email),
+        files: [...holdersByFile.values()].filter((holders) => holders.includes(email)).length,
+      })),
+      atRiskFiles,
+      atRiskDirectories,
+    }
+  }
+
+  /**
+   * Changelog for the commits in `to` but not in `from`. `to` defaults to the default branch
+   * and `from` to the latest tag before `to`, or the start of history if there is none.
+   */
+  async getChangelog(id: number, userId: number, range: { from?: string; to?: string }) {
+    const repository = await prisma.repository.findFirst({
+      where: { id, userId },
+    })
+
+    if (!repository) {
+      throw new Error('Repository not found')
+    }
+
+    // Cloning here would hold up the request, so an evicted mirror waits for the next analysis
+    const mirrorPath = await mirrorStore.acquireExisting(id, repository.url)
+    if (!mirrorPath) {
+      throw new Error('Repository mirror not available')
+    }
+
+    try {
+      const gitService = GitService.openMirror(mirrorPath)
+
+      const to = range.to || 'HEAD'
+      const toHash = await gitService.resolveRef(to)
+      if (!toHash) {
+        throw new Error(`Unknown ref: ${to}`)
+      }
+
+      const from = range.from || (await gitService.getPreviousTag(toHash))
+      const fromHash = from ? await gitService.resolveRef(from) : null
+      if (from && !fromHash) {
+        throw new Error(`Unknown ref: ${from}`)
+      }
+
+      const commits = await gitService.getCommitsBetween(fromHash, toHash)
+
+      return buildChangelog(commits.map(toChangelogEntry), {
+        from,
+        to: range.to || repository.defaultBranch,
+        date: commits[0]?.committedAt || new Date(),
+      })
+    } finally {
+      mirrorStore.release(id)
+    }
+  }
+
+  /**
+   * Per-release statistics for every tag, newest first, plus a release cadence summary
+   */
+  async getReleases(id: number, userId: number) {
+    const repository = await prisma.repository.findFirst({
+      where: { id, userId },
+    })
+
+    if (!repository) {
+      throw new Error('Repository not found')
+    }
+
+    const tags = await prisma.tag.findMany({
+      where: { repositoryId: id },
+      orderBy: { taggedAt: 'asc' },
+      include: {
+        commits: {
+          select: {
+            commit: {
+              select: { authorName: true, authorEmail: true, additions: true, deletions: true },
+            },
+          },
+        },
+      },
+    })
+
+    const day = 24 * 60 * 60 * 1000
+    const tagsByName = new Map(tags.map((tag) => [tag.name, tag]))
+
+    const releases = tags.map(({ commits, ...tag }) => {
+      const contributors = new Map<string, { name: string; email: string; commits: number }>()
+      let additions = 0
+      let deletions = 0
+
+      for (const { commit } of commits) {
+        additions += commit.additions
+        deletions += commit.deletions
+        const contributor = contributors.get(commit.authorEmail) || {
+          name: commit.authorName,
+          email: commit.authorEmail,
+          commits: 0,
+        }
+        contributor.commits++
+        contributors.set(commit.authorEmail, contributor)
+      }
+
+      const previous = tag.previousTag ? tagsByName.get(tag.previousTag) : null
+
+      return {
+        ...tag,
+        commitCount: commits.length,
+        additions,
+        deletions,
+        churn: additions + deletions,
+        contributors: [...contributors.values()].sort((a, b) => b.commits - a.commits),
+        daysSincePrevious: previous
+          ? Math.round(((tag.taggedAt.getTime() - previous.taggedAt.getTime()) / day) * 10) / 10
+          : null,
+      }
+    })
+
+    const intervals = releases
+      .map((release) => release.daysSincePrevious)
+      .filter((days): days is number => days !== null)
+      .sort((a, b) => a - b)
+    const middle = Math.floor(intervals.length / 2)
+    const now = Date.now()
+    const last = releases[releases.length - 1]
+
+    const cadence = {
+      releaseCount: releases.length,
+      firstRelease: releases[0]?.taggedAt || null,
+      lastRelease: last?.taggedAt || null,
+      daysSinceLastRelease: last ? Math.floor((now - last.taggedAt.getTime()) / day) : null,
+      averageDaysBetween:
+        intervals.length > 0
+          ? Math.round((intervals.reduce((sum, d) => sum + d, 0) / intervals.length) * 10) / 10
+          : null,
+      medianDaysBetween:
+        intervals.length === 0
+          ? null
+          : intervals.length % 2 === 1
+            ? intervals[middle]
+            : Math.round(((intervals[middle - 1] + intervals[middle]) / 2) * 10) / 10,
+      averageCommitsPerRelease:
+        releases.length > 0
+          ? Math.round(releases.reduce((sum, r) => sum + r.commitCount, 0) / releases.length)
+          : 0,
+      releasesLast90Days: releases.filter((r) => now - r.taggedAt.getTime() <= 90 * day).length,
+      releasesLast365Days: releases.filter((r) => now - r.taggedAt.getTime() <= 365 * day).length,
+    }
+
+    return { releases: releases.reverse(), cadence }
+  }
+
+  /**
+   * Branch lifecycle report: type, divergence from the default branch, age, staleness
+   * and naming policy violations
+   */
+  async getBranchReport(
+    id: number,
+    userId: number,
+    options: { staleDays: number; policy: BranchNamingPolicy }
+  ) {
+    const repository = await prisma.repository.findFirst({
+      where: { id, userId },
+    })
+
+    if (!repository) {
+      throw new Error('Repository not found')
+    }
+
+    const stored = await prisma.branch.findMany({
+      where: { repositoryId: id },
+      orderBy: [{ isDefault: 'desc' }, { lastCommitAt: 'desc' }],
+    })
+
+    const day = 24 * 60 * 60 * 1000
+    const now = Date.now()
+
+    const branches = stored.map((branch) => {
+      const daysSinceLastCommit = branch.lastCommitAt
+        ? Math.floor((now - branch.lastCommitAt.getTime()) / day)
+        : null
+
+      return {
+        ...branch,
+        type: classifyBranch(branch.name, branch.isDefault),
+        ageDays: branch.firstCommitAt
+          ? Math.floor((now - branch.firstCommitAt.getTime()) / day)
+          : null,
+        daysSinceLastCommit,
+        isStale:
+          !branch.isDefault &&
+          daysSinceLastCommit !== null &&
+          daysSinceLastCommit > options.staleDays,
+        namingViolations: branch.isDefault ? [] : checkBranchName(branch.name, options.policy),
+      }
+    })
+
+    const byType: Record<string, number> = {}
+    for (const branch of branches) {
+      byType[branch.type] = (byType[branch.type] || 0) + 1
+    }
+
+    const others = branches.filter((branch) => !branch.isDefault)
+
+    return {
+      branches,
+      stale: others.filter((branch) => branch.isStale).map((branch) => branch.name),
+      summary: {
+        total: branches.length,
+        byType,
+        merged: others.filter((branch) => branch.isMerged).length,
+        unmerged: others.filter((branch) => !branch.isMerged).length,
+        stale: others.filter((branch) => branch.isStale).length,
+        // Merged branches that could simply be deleted
+        mergedAndStale: others.filter((branch) => branch.isMerged && branch.isStale).length,
+        namingViolations: others.filter((branch) => branch.namingViolations.length > 0).length,
+      },
+      staleDays: options.staleDays,
+      policy: options.policy,
+    }
+  }
+
+  /**
+   * Who owns the current code of a file or directory, by surviving lines per author.
+   * Directory results include a breakdown of their direct children.
+   */
+  async getOwnership(id: number, userId: number, filePath?: string) {
+    const repository = await prisma.repository.findFirst({
+      where: { id, userId },
+    })
+
+    if (!repository) {
+      throw new Error('Repository not found')
+    }
+
+    const target = (filePath || '').replace(/^\/+|\/+$/g, '')
+
+    const files = await prisma.file.findMany({
+      where: {
+        repositoryId: id,
+        ...(target && { OR: [{ path: target }, { path: { startsWith: `${target}/` } }] }),
+      },
+      select: {
+        path: true,
+        ownership: { select: { authorName: true, authorEmail: true, lines: true } },
+      },
+    })
+
+    if (target && files.length === 0) {
+      throw new Error('Path not found')
+    }
+
+    const isFile = files.length === 1 && files[0].path === target
+    const prefix = target ? `${target}/` : ''
+
+    const owners = new Map<string, { name: string; email: string; lines: number; files: number }>()
+    const children = new Map<
+      string,
+      {
+        name: string
+        path: string
+        type: 'file' | 'directory'
+        lines: number
+        owners: Map<string, number>
+      }
+    >()
+    let totalLines = 0
+
+    for (const file of files) {
+      // Direct child of the requested directory this file rolls up into
+      const [name, ...rest] = file.path.slice(prefix.length).split('/')
+      let child = children.get(name)
+      if (!isFile && !child) {
+        child = {
+          name,
+          path: prefix + name,
+          type: rest.length > 0 ? 'directory' : 'file',
+          lines: 0,
+          owners: new Map(),
+        }
+        children.set(name, child)
+      }
+
+      for (const row of file.ownership) {
+        totalLines += row.lines
+
+        const owner = owners.get(row.authorEmail)
+        if (owner) {
+          owner.lines += row.lines
+          owner.files++
+        } else {
+          owners.set(row.authorEmail, {
+            name: row.authorName,
+            email: row.authorEmail,
+            lines: row.lines,
+            files: 1,
+          })
+        }
+
+        if (child) {
+          child.lines += row.lines
+          child.owners.set(row.authorEmail, (child.owners.get(row.authorEmail) || 0) + row.lines)
+        }
+      }
+    }
+
+    const share = (lines: number, total: number) =>
+      total > 0 ? Math.round((lines / total) * 10000) / 100 : 0
+
+    return {
+      path: target,
+      type: isFile ? 'file' : 'directory',
+      fileCount: files.length,
+      totalLines,
+      owners: [...owners.values()]
+        .sort((a, b) => b.lines - a.lines)
+        .map((owner) => ({ ...owner, percentage: share(owner.lines, totalLines) })),
+      children: [...children.values()]
+        .sort((a, b) => b.lines - a.lines)
+        .map((child) => {
+          const [topEmail, topLines] = [...child.owners].sort((a, b) => b[1] - a[1])[0] || []
+          return {
+            name: child.name,
+            path: child.path,
+            type: child.type,
+            lines: child.lines,
+            owner: topEmail
+              ? {
+                  name: owners.get(topEmail)!.name,
+                  email: topEmail,
+                  percentage: share(topLines, child.lines),
+                }
+              : null,
+          }
+        }),
+    }
+  }
+
+  /**
+   * Code quality score of the repository or a directory, explained per component,
+   * with per-language scores and the lowest scoring files
+   */
+  async getCodeQuality(id: number, userId: number, filePath?: string) {
+    const repository = await prisma.repository.findFirst({
+      where: { id, userId },
+    })
+
+    if (!repository) {
+      throw new Error('Repository not found')
+    }
+
+    const target = (filePath || '').replace(/^\/+|\/+$/g, '')
+
+    const rows = await prisma.fileMetric.findMany({
+      where: {
+        repositoryId: id,
+        ...(target && {
+          file: { OR: [{ path: target }, { path: { startsWith: `${target}/` } }] },
+        }),
+      },
+      include: { file: { select: { path: true, language: true } } },
+    })
+
+    if (target && rows.length === 0) {
+      throw new Error('Path not found')
+    }
+
+    const totals = combineMetrics(rows)
+    const { score, components } = calculateQualityScore(totals)
+    const lines = totals.codeLines + totals.commentLines
+
+    const byLanguage = new Map<string, typeof rows>()
+    for (const row of rows) {
+      const language = row.file.language || 'Unknown'
+      const languageRows = byLanguage.get(language)
+      if (languageRows) languageRows.push(row)
+      else byLanguage.set(language, [row])
+    }
+
+    return {
+      path: target,
+      score: rows.length > 0 ? score : null,
+      components,
+      summary: {
+        files: rows.length,
+        functions: totals.functionCount,
+        averageComplexity:
+          totals.functionCount > 0
+            ? Math.round((totals.totalComplexity / totals.functionCount) * 100) / 100
+            : 0,
+        maxComplexity: totals.maxComplexity,
+        averageFunctionLength:
+          totals.functionCount > 0
+            ? Math.round((totals.totalFunctionLength / totals.functionCount) * 100) / 100
+            : 0,
+        maxFunctionLength: totals.maxFunctionLength,
+        maxNesting: totals.maxNesting,
+        commentDensity: lines > 0 ? Math.round((totals.commentLines / lines) * 10000) / 100 : 0,
+      },
+      languages: [...byLanguage]
+        .map(([language, group]) => ({
+          language,
+          files: group.length,
+          score: calculateQualityScore(combineMetrics(group)).score,
+        }))
+        .sort((a, b) => b.files - a.files),
+      worstFiles: rows
+        .filter((row) => row.functionCount > 0)
+        .sort((a, b) => a.score - b.score || b.maxComplexity - a.maxComplexity)
+        .slice(0, 20)
+        .map((row) => ({
+          path: row.file.path,
+          score: row.score,
+          functions: row.functionCount,
+          maxComplexity: row.maxComplexity,
+          maxFunctionLength: row.maxFunctionLength,
+          maxNesting: row.maxNesting,
+        })),
+    }
+  }
+
+  /**
+   * Software bill of materials of the dependencies found by the last analysis
+   */
+  async getSbom(id: number, userId: number, format: SbomFormat) {
+    const repository = await prisma.repository.findFirst({
+      where: { id, userId },
+    })
+
+    if (!repository) {
+      throw new Error('Repository not found')
+    }
+
+    const [dependencies, defaultBranch] = await Promise.all([
+      prisma.dependency.findMany({
+        where: { repositoryId: id },
+        orderBy: [{ ecosystem: 'asc' }, { name: 'asc' }],
+      }),
+      prisma.branch.findFirst({
+        where: { repositoryId: id, name: repository.defaultBranch },
+        select: { lastAnalyzedHash: true },
+      }),
+    ])
+
+    const subject = {
+      name: repository.name,
+      url: repository.url,
+      commitHash: defaultBranch?.lastAnalyzedHash,
+      license: repository.license,
+    }
+
+    return format === 'spdx' ? toSPDX(subject, dependencies) : toCycloneDX(subject, dependencies)
+  }
+
+  /**
+   * Dependencies affected by known advisories, most severe first, with the version that
+   * fixes each one
+   */
+  async getVulnerabilities(id: number, userId: number, minSeverity?: Severity) {
+    const repository = await prisma.repository.findFirst({
+      where: { id, userId },
+    })
+
+    if (!repository) {
+      throw new Error('Repository not found')
+    }
+
+    const severities = minSeverity
+      ? SEVERITY_ORDER.slice(0, SEVERITY_ORDER.indexOf(minSeverity) + 1)
+      : undefined
+
+    const [matches, dependencyCount, advisoryImport] = await Promise.all([
+      prisma.vulnerability.findMany({
+        where: { repositoryId: id, ...(severities && { severity: { in: severities } }) },
+        include: {
+          dependency: true,
+          advisory: {
+            select: {
+              id: true,
+              aliases: true,
+              summary: true,
+              cvssScore: true,
+              references: true,
+              publishedAt: true,
+            },
+          },
+        },
+      }),
+      prisma.dependency.count({ where: { repositoryId: id } }),
+      prisma.advisory.aggregate({ _max: { importedAt: true } }),
+    ])
+
+    const rank = (severity: string | null) =>
+      severity ? SEVERITY_ORDER.indexOf(severity as Severity) : SEVERITY_ORDER.length
+    const vulnerabilities = matches
+      .map((match) => ({
+        advisoryId: match.advisory.id,
+        aliases: match.advisory.aliases,
+        summary: match.advisory.summary,
+        severity: match.severity,
+        cvssScore: match.advisory.cvssScore,
+        fixedVersion: match.fixedVersion,
+        publishedAt: match.advisory.publishedAt,
+        references: match.advisory.references,
+        package: {
+          name: match.dependency.name,
+          version: match.dependency.version,
+          ecosystem: match.dependency.ecosystem,
+          isDirect: match.dependency.isDirect,
+          manifestPath: match.dependency.manifestPath,
+        },
+      }))
+      .sort(
+        (a, b) => rank(a.severity) - rank(b.severity) || (b.cvssScore || 0) - (a.cvssScore || 0)
+      )
+
+    const bySeverity: Record<string, number> = {
+      critical: 0,
+      high: 0,
+      medium: 0,
+      low: 0,
+      unknown: 0,
+    }
+    const packages = new Set<number>()
+    for (const match of matches) {
+      bySeverity[match.severity || 'unknown']++
+      packages.add(match.dependencyId)
+    }
+
+    return {
+      advisoriesImportedAt: advisoryImport._max.importedAt,
+      dependencies: dependencyCount,
+      vulnerableDependencies: packages.size,
+      bySeverity,
+      vulnerabilities,
+    }
+  }
+
+  /**
+   * Leaked credentials found by analysis, grouped by secret. A secret removed from the tree
+   * stays exposed in history until it is rotated, so history-only secrets are listed too.
+   */
+  async getSecrets(
+    id: number,
+    userId: number,
+    filters: { rule?: string; source?: 'tree' | 'history' } = {}
+  ) {
+    const repository = await prisma.repository.findFirst({
+      where: { id, userId },
+    })
+
+    if (!repository) {
+      throw new Error('Repository not found')
+    }
+
+    const findings = await prisma.secretFinding.findMany({
+      where: { repositoryId: id, ...(filters.rule && { rule: filters.rule }) },
+      orderBy: [{ committedAt: 'asc' }, { path: 'asc' }, { line: 'asc' }],
+    })
+
+    const descriptions = new Map(SECRET_RULES.map((rule) => [rule.id, rule.description]))
+    const secrets = new Map<
+      string,
+      {
+        fingerprint: string
+        rule: string
+        description: string | null
+        redacted: string
+        inTree: boolean
+        firstSeenAt: Date | null
+        locations: {
+          source: string
+          path: string
+          line: number
+          commitHash: string | null
+          authorName: string | null
+          authorEmail: string | null
+          committedAt: Date | null
+        }[]
+      }
+    >()
+
+    for (const finding of findings) {
+      let secret = secrets.get(finding.fingerprint)
+      if (!secret) {
+        secret = {
+          fingerprint: finding.fingerprint,
+          rule: finding.rule,
+          description: descriptions.get(finding.rule) || null,
+          redacted: finding.redacted,
+          inTree: false,
+          firstSeenAt: null,
+          locations: [],
+        }
+        secrets.set(finding.fingerprint, secret)
+      }
+
+      secret.inTree = secret.inTree || finding.source === 'tree'
+      const seenAt = finding.committedAt
+      if (seenAt && (!secret.firstSeenAt || seenAt < secret.firstSeenAt)) {
+        secret.firstSeenAt = seenAt
+      }
+      secret.locations.push({
+        source: finding.source,
+        path: finding.path,
+        line: finding.line,
+        commitHash: finding.commitHash,
+        authorName: finding.authorName,
+        authorEmail: finding.authorEmail,
+        committedAt: finding.committedAt,
+      })
+    }
+
+    const listed = [...secrets.values()]
+      .filter((secret) => {
+        if (filters.source === 'tree') return secret.inTree
+        if (filters.source === 'history') return !secret.inTree
+        return true
+      })
+      // Secrets still in the tree first, then the most recently leaked
+      .sort(
+        (a, b) =>
+          Number(b.inTree) - Number(a.inTree) ||
+          (b.firstSeenAt?.getTime() || 0) - (a.firstSeenAt?.getTime() || 0)
+      )
+
+    const byRule: Record<string, number> = {}
+    for (const secret of listed) {
+      byRule[secret.rule] = (byRule[secret.rule] || 0) + 1
+    }
+
+    return {
+      summary: {
+        secrets: listed.length,
+        inTree: listed.filter((secret) => secret.inTree).length,
+        historyOnly: listed.filter((secret) => !secret.inTree).length,
+        byRule,
+      },
+      secrets: listed,
+    }
+  }
+
+  /**
+   * License compliance: the repository license, files and directories under another license,
+   * and copyleft dependencies of a permissively licensed repository
+   */
+  async getLicenses(id: number, userId: number) {
+    const repository = await prisma.repository.findFirst({
+      where: { id, userId },
+    })
+
+    if (!repository) {
+      throw new Error('Repository not found')
+    }
+
+    const [findings, dependencies] = await Promise.all([
+      prisma.licenseFinding.findMany({ where: { repositoryId: id }, orderBy: { path: 'asc' } }),
+      prisma.dependency.findMany({
+        where: { repositoryId: id },
+        orderBy: [{ ecosystem: 'asc' }, { name: 'asc' }],
+      }),
+    ])
+
+    const describe = (license: string | null) => ({
+      license,
+      name: license ? licenseName(license) : null,
+      category: licenseCategory(license),
+    })
+
+    const licenseFiles = findings
+      .filter((finding) => finding.source === 'file')
+      .map((finding) => ({
+        path: finding.path,
+        ...describe(finding.license),
+        confidence: finding.confidence,
+      }))
+
+    // License files below the root cover their directory, headers their own file
+    const exceptions = findings
+      .filter(
+        (finding) =>
+          finding.license && (finding.source === 'header' || finding.path.includes('/'))
+      )
+      .filter(
+        (finding) =>
+          !repository.license || !isSameLicense(finding.license!, repository.license)
+      )
+      .map((finding) => ({
+        path: finding.source === 'file' ? path.posix.dirname(finding.path) : finding.path,
+        scope: finding.source === 'file' ? 'directory' : 'file',
+        source: finding.source,
+        ...describe(finding.license),
+      }))
+
+    const byCategory: Record<LicenseCategory, number> = {
+      permissive: 0,
+      'weak-copyleft': 0,
+      copyleft: 0,
+      unknown: 0,
+    }
+    const byLicense: Record<string, number> = {}
+    for (const dependency of dependencies) {
+      byCategory[licenseCategory(dependency.license)]++
+      if (dependency.license) {
+        byLicense[dependency.license] = (byLicense[dependency.license] || 0) + 1
+      }
+    }
+
+    // Copyleft terms conflict with a permissive license once the dependency is distributed
+    // with the project; weak copyleft only covers changes to the dependency itself
+    const repositoryCategory = licenseCategory(repository.license)
+    const copyleftDependencies =
+      repositoryCategory === 'permissive'
+        ? dependencies
+            .map((dependency) => ({
+              name: dependency.name,
+              version: dependency.version,
+              ecosystem: dependency.ecosystem,
+              isDirect: dependency.isDirect,
+              manifestPath: dependency.manifestPath,
+              license: dependency.license,
+              category: licenseCategory(dependency.license),
+            }))
+            .filter((dependency) => dependency.category.endsWith('copyleft'))
+            .sort(
+              (a, b) =>
+                Number(b.category === 'copyleft') - Number(a.category === 'copyleft') ||
+                Number(b.isDirect) - Number(a.isDirect)
+            )
+        : []
+
+    return {
+      ...describe(repository.license),
+      licenseFiles,
+      exceptions,
+      dependencies: {
+        total: dependencies.length,
+        withLicense: dependencies.filter((dependency) => dependency.license).length,
+        byCategory,
+        byLicense,
+      },
+      copyleftDependencies,
+    }
+  }
+
+  /**
+   * List analysis runs for a repository, newest first
+   */
+  async listAnalysisRuns(id: number, userId: number) {
+    const repository = await prisma.repository.findFirst({
+      where: { id, userId },
+    })
+
+    if (!repository) {
+      throw new Error('Repository not found')
+    }
+
+    return prisma.analysisRun.findMany({
+      where: { repositoryId: id },
+      orderBy: { startedAt: 'desc' },
+    })
+  }
+
+  /**
+   * Cancel a running analysis
+   */
+  async cancelAnalysisRun(id: number, runId: number, userId: number) {
+    const run = await prisma.analysisRun.findFirst({
+      where: { id: runId, repositoryId: id, repository: { userId } },
+    })
+
+    if (!run) {
+      throw new Error('Analysis run not found')
+    }
+
+    if (run.status !== 'running') {
+      throw new Error('Analysis run is not running')
+    }
+
+    const controller = this.activeRuns.get(runId)
+
+    if (controller) {
+      // The run marks itself cancelled at its next checkpoint
+      controller.abort()
+      return { ...run, status: 'cancelling' }
+    }
+
+    // The run is not executing in this process (e.g. the server restarted mid-run)
+    await prisma.repository.update({
+      where: { id },
+      data: { status: await this.statusBeforeRun(id, runId) },
+    })
+
+    return prisma.analysisRun.update({
+      where: { id: runId },
+      data: { status: 'cancelled', finishedAt: new Date() },
+    })
+  }
+
+  /**
+   * Repository status as the last run that finished before the given one left it, so that
+   * cancelling a run does not mark the repository failed
+   */
+  private async statusBeforeRun(repositoryId: number, runId: number) {
+    const previousRun = await prisma.analysisRun.findFirst({
+      where: { repositoryId, id: { lt: runId }, status: { in: ['completed', 'failed'] } },
+      orderBy: { id: 'desc' },
+    })
+
+    return previousRun?.status || 'pending'
+  }
+
+  /**
+   * Start a new analysis run retrying a failed or cancelled one
+   */
+  async retryAnalysisRun(id: number, runId: number, userId: number) {
+    const run = await prisma.analysisRun.findFirst({
+      where: { id: runId, repositoryId: id, repository: { userId } },
+    })
+
+    if (!run) {
+      throw new Error('Analysis run not found')
+    }
+
+    if (run.status !== 'failed' && run.status !== 'cancelled') {
+      throw new Error('Only failed or cancelled runs can be retried')
+    }
+
+    return this.startAnalysis(id, run.id)
+  }
+
+  /**
+   * Merge alias identities into a primary contributor and remember the rule for later analyses
+   */
+  async mergeContributors(
+    id: number,
+    userId: number,
+    input: { primaryEmail: string; aliasEmails: string[]; name?: string }
+  ) {
+    const repository = await prisma.repository.findFirst({
+      where: { id, userId },
+    })
+
+    if (!repository) {
+      throw new Error('Repository not found')
+    }
+
+    const primary = await prisma.contributor.findUnique({
+      where: { repositoryId_email: { repositoryId: id, email: input.primaryEmail } },
+    })
+
+    if (!primary) {
+      throw new Error('Contributor not found')
+    }
+
+    const aliasEmails = [...new Set(input.aliasEmails)].filter((e) => e !== input.primaryEmail)
+    const canonicalName = input.name || primary.name
+
+    const aliasContributors = await prisma.contributor.findMany({
+      where: { repositoryId: id, email: { in: aliasEmails } },
+    })
+
+    // Identities of alias commits not merged before, remembered so the merge can be undone
+    const identities = await prisma.commit.groupBy({
+      by: ['authorEmail', 'authorName'],
+      where: { repositoryId: id, authorEmail: { in: aliasEmails }, originalAuthorEmail: null },
+    })
+
+    const [merged] = this.foldContributorAliases(
+      [primary, ...aliasContributors],
+      new Map(
+        aliasEmails.map((email) => [email, { canonicalEmail: primary.email, canonicalName }])
+      )
+    )
+
+    await prisma.$transaction([
+      // Rules that pointed at an alias now point at the primary contributor
+      prisma.contributorAlias.updateMany({
+        where: { repositoryId: id, canonicalEmail: { in: aliasEmails } },
+        data: { canonicalEmail: primary.email, canonicalName },
+      }),
+      ...aliasEmails.map((email) =>
+        prisma.contributorAlias.upsert({
+          where: { repositoryId_email: { repositoryId: id, email } },
+          create: { repositoryId: id, email, canonicalEmail: primary.email, canonicalName },
+          update: { canonicalEmail: primary.email, canonicalName },
+        })
+      ),
+      ...identities.map((identity) =>
+        prisma.commit.updateMany({
+          where: { repositoryId: id, ...identity, originalAuthorEmail: null },
+          data: {
+            originalAuthorEmail: identity.authorEmail,
+            originalAuthorName: identity.authorName,
+          },
+        })
+      ),
+      prisma.commit.updateMany({
+        where: { repositoryId: id, authorEmail: { in: [primary.email, ...aliasEmails] } },
+        data: { authorEmail: primary.email, authorName: canonicalName },
+      }),
+      prisma.contributor.deleteMany({
+        where: { repositoryId: id, email: { in: aliasEmails } },
+      }),
+      prisma.contributor.update({
+        where: { id: primary.id },
+        data: {
+          name: canonicalName,
+          commits: merged.commits,
+          additions: merged.additions,
+          deletions: merged.deletions,
+          firstCommit: merged.firstCommit,
+          lastCommit: merged.lastCommit,
+        },
+      }),
+    ])
+
+    await this.recalculateContributorPercentages(id)
+    await this.mergeOwnership(id, primary.email, aliasEmails, canonicalName)
+
+    return prisma.contributor.findUnique({ where: { id: primary.id } })
+  }
+
+  /**
+   * List the alias rules for a repository
+   */
+  async listContributorAliases(id: number, userId: number) {
+    const repository = await prisma.repository.findFirst({
+      where: { id, userId },
+    })
+
+    if (!repository) {
+      throw new Error('Repository not found')
+    }
+
+    return prisma.contributorAlias.findMany({
+      where: { repositoryId: id },
+      orderBy: [{ canonicalEmail: 'asc' }, { email: 'asc' }],
+    })
+  }
+
+  /**
+   * Delete an alias rule and give its commits back their original identity.
+   * Contributor totals and ownership are split again by the next analysis, which runs in full.
+   */
+  async deleteContributorAlias(id: number, aliasId: number, userId: number) {
+    const alias = await prisma.contributorAlias.findFirst({
+      where: { id: aliasId, repositoryId: id, repository: { userId } },
+    })
+
+    if (!alias) {
+      throw new Error('Alias not found')
+    }
+
+    const commits = await prisma.commit.groupBy({
+      by: ['originalAuthorName'],
+      where: { repositoryId: id, originalAuthorEmail: alias.email },
+    })
+
+    await prisma.$transaction([
+      prisma.contributorAlias.delete({ where: { id: aliasId } }),
+      ...commits.map(({ originalAuthorName }) =>
+        prisma.commit.updateMany({
+          where: { repositoryId: id, originalAuthorEmail: alias.email, originalAuthorName },
+          data: {
+            authorEmail: alias.email,
+            authorName: originalAuthorName!,
+            originalAuthorEmail: null,
+            originalAuthorName: null,
+          },
+        })
+      ),
+      // The next analysis runs in full and rebuilds the totals from the restored commits
+      prisma.branch.updateMany({ where: { repositoryId: id }, data: { lastAnalyzedHash: null } }),
+    ])
+
+    return { success: true }
   }
 }
 
@@ -0,0 +1,222 @@
+import { parseCommitMessage } from './repositoryUtils'
+
+/**
+ * Changelog generation from conventional commits
+ */
+
+export type ChangelogFormat = 'json' | 'markdown' | 'keepachangelog'
+export type SemverBump = 'major' | 'minor' | 'patch'
+
+export interface ChangelogEntry {
+  hash: string
+  shortHash: string
+  type: string | null
+  scope: string | null
+  subject: string
+  breaking: boolean
+  authorName: string
+  committedAt: Date
+}
+
+export interface ChangelogSection {
+  title: string
+  scopes: { scope: string | null; entries: ChangelogEntry[] }[]
+}
+
+export interface Changelog {
+  from: string | null
+  to: string
+  date: Date
+  bump: SemverBump | null
+  currentVersion: string | null
+  nextVersion: string | null
+  commitCount: number
+  sections: ChangelogSection[]
+}
+
+const SECTION_TITLES = ['Breaking Changes', 'Features', 'Fixes', 'Other']
+
+function sectionFor(entry: ChangelogEntry): string {
+  if (entry.breaking) return 'Breaking Changes'
+  if (entry.type === 'feat') return 'Features'
+  if (entry.type === 'fix') return 'Fixes'
+  return 'Other'
+}
+
+/**
+ * Turn a commit into a changelog entry, also honouring `BREAKING CHANGE:` footers
+ */
+export function toChangelogEntry(commit: {
+  hash: string
+  shortHash: string
+  message: string
+  description?: string | null
+  authorName: string
+  committedAt: Date
+}): ChangelogEntry {
+  const parsed = parseCommitMessage(commit.message)
+
+  return {
+    hash: commit.hash,
+    shortHash: commit.shortHash,
+    type: parsed.type || null,
+    scope: parsed.scope || null,
+    subject: parsed.subject,
+    breaking: parsed.breaking || /^BREAKING[ -]CHANGE:/m.test(commit.description || ''),
+    authorName: commit.authorName,
+    committedAt: commit.committedAt,
+  }
+}
+
+// Commit types that warrant a patch release on their own
+const PATCH_TYPES = ['fix', 'perf']
+
+/**
+ * Semver bump implied by a set of changes: breaking → major, features → minor,
+ * fixes and performance improvements → patch, and null when nothing needs releasing
+ */
+export function suggestBump(entries: ChangelogEntry[]): SemverBump | null {
+  if (entries.some((entry) => entry.breaking)) return 'major'
+  if (entries.some((entry) => entry.type === 'feat')) return 'minor'
+  if (entries.some((entry) => entry.type && PATCH_TYPES.includes(entry.type))) return 'patch'
+  return null
+}
+
+/**
+ * Apply a bump to a version such as `v1.4.2`, keeping its prefix.
+ * Before 1.0.0 breaking changes only bump the minor version.
+ */
+export function bumpVersion(version: string, bump: SemverBump): string | null {
+  const match = version.match(/^(v?)(\d+)\.(\d+)\.(\d+)/)
+  if (!match) return null
+
+  const [, prefix] = match
+  let [major, minor, patch] = match.slice(2).map((n) => parseInt(n))
+
+  if (bump === 'major' && major > 0) {
+    major++
+    minor = patch = 0
+  } else if (bump === 'major' || bump === 'minor') {
+    minor++
+    patch = 0
+  } else {
+    patch++
+  }
+
+  return `${prefix}${major}.${minor}.${patch}`
+}
+
+export function buildChangelog(
+  entries: ChangelogEntry[],
+  range: { from: string | null; to: string; date: Date }
+): Changelog {
+  const sections: ChangelogSection[] = SECTION_TITLES.map((title) => ({ title, scopes: [] }))
+
+  for (const entry of entries) {
+    const section = sections.find((s) => s.title === sectionFor(entry))!
+    let group = section.scopes.find((s) => s.scope === entry.scope)
+    if (!group) {
+      group = { scope: entry.scope, entries: [] }
+      section.scopes.push(group)
+    }
+    group.entries.push(entry)
+  }
+
+  // Unscoped entries first, then scopes alphabetically
+  for (const section of sections) {
+    section.scopes.sort((a, b) => (a.scope || '').localeCompare(b.scope || ''))
+  }
+
+  const bump = suggestBump(entries)
+
+  return {
+    ...range,
+    bump,
+    currentVersion: range.from,
+    nextVersion: range.from && bump ? bumpVersion(range.from, bump) : null,
+    commitCount: entries.length,
+    sections: sections.filter((section) => section.scopes.length > 0),
+  }
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().split('T')[0]
+}
+
+function entryLine(entry: ChangelogEntry, withScope: boolean): string {
+  const scope = withScope && entry.scope ? `**${entry.scope}:** ` : ''
+  return `- ${scope}${entry.subject} (${entry.shortHash})`
+}
+
+/**
+ * Release notes grouped by section, then scope
+ */
+export function renderMarkdown(changelog: Changelog): string {
+  const title = changelog.nextVersion || changelog.to
+  const lines = [`## ${title} (${formatDate(changelog.date)})`, '']
+
+  if (changelog.sections.length === 0) {
+    lines.push('No changes.', '')
+  }
+
+  for (const section of changelog.sections) {
+    lines.push(`### ${section.title}`, '')
+
+    for (const group of section.scopes) {
+      if (group.scope) {
+        lines.push(`#### ${group.scope}`, '')
+      }
+      lines.push(...group.entries.map((entry) => entryLine(entry, false)), '')
+    }
+  }
+
+  return lines.join('\n')
+}
+
+// Keep a Changelog categories for conventional commit types; other types are left out
+const KEEP_A_CHANGELOG_TYPES: Record<string, string> = {
+  feat: 'Added',
+  fix: 'Fixed',
+  perf: 'Changed',
+  refactor: 'Changed',
+  revert: 'Changed',
+  deprecate: 'Deprecated',
+  remove: 'Removed',
+  security: 'Security',
+}
+
+const KEEP_A_CHANGELOG_ORDER = ['Added', 'Changed', 'Deprecated', 'Removed', 'Fixed', 'Security']
+
+/**
+ * A release entry in the https://keepachangelog.com format
+ */
+export function renderKeepAChangelog(changelog: Changelog): string {
+  const version = changelog.nextVersion
+    ? `[${changelog.nextVersion.replace(/^v/, '')}]`
+    : '[Unreleased]'
+  const lines = [`## ${version} - ${formatDate(changelog.date)}`, '']
+
+  const categories = new Map<string, string[]>()
+  for (const section of changelog.sections) {
+    for (const group of section.scopes) {
+      for (const entry of group.entries) {
+        const category = entry.breaking ? 'Changed' : KEEP_A_CHANGELOG_TYPES[entry.type || '']
+        if (!category) continue
+
+        const line = entryLine(entry, true)
+        const items = categories.get(category) || []
+        items.push(entry.breaking ? line.replace(/^- /, '- **BREAKING:** ') : line)
+        categories.set(category, items)
+      }
+    }
+  }
+
+  for (const category of KEEP_A_CHANGELOG_ORDER) {
+    const items = categories.get(category)
+    if (items) {
+      lines.push(`### ${category}`, '', ...items, '')
+    }
+  }
+
+  return lines.join('\n')
+}
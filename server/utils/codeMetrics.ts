@@ -0,0 +1,412 @@
+/**
+ * Lightweight static metrics for TypeScript/JavaScript and Python sources:
+ * cyclomatic complexity, function length, nesting depth and comment density.
+ * Sources are scanned lexically, so results are approximate but deterministic.
+ */
+
+// A function counts as complex, long or deeply nested above these limits
+export const QUALITY_THRESHOLDS = {
+  complexity: 10,
+  functionLength: 50,
+  nesting: 4,
+  // Comment density that earns the full comment score
+  commentDensity: 0.15,
+}
+
+// Share of the quality score each component contributes
+const QUALITY_WEIGHTS = {
+  complexity: 0.35,
+  functionLength: 0.25,
+  nesting: 0.2,
+  comments: 0.2,
+}
+
+export interface CodeMetrics {
+  functionCount: number
+  totalComplexity: number
+  maxComplexity: number
+  maxFunctionLength: number
+  totalFunctionLength: number
+  maxNesting: number
+  complexFunctions: number
+  longFunctions: number
+  deeplyNestedFunctions: number
+  codeLines: number
+  commentLines: number
+}
+
+interface StrippedSource {
+  lines: string[]
+  commentLines: number
+  codeLines: number
+}
+
+interface FunctionMetrics {
+  startLine: number
+  endLine: number
+  complexity: number
+  nesting: number
+}
+
+const ANALYZED_LANGUAGES = ['TypeScript', 'JavaScript', 'Python']
+
+export function supportsCodeMetrics(language: string | null): boolean {
+  return !!language && ANALYZED_LANGUAGES.includes(language)
+}
+
+/**
+ * Split source into lines of code with comments and string contents blanked out,
+ * counting the lines that carry comments
+ */
+function stripSource(
+  source: string,
+  syntax: 'c' | 'python'
+): StrippedSource {
+  const out: string[] = []
+  const commentLineSet = new Set<number>()
+  let line = 0
+  let current = ''
+  let i = 0
+
+  const advance = (char: string) => {
+    if (char === '\n') {
+      out.push(current)
+      current = ''
+      line++
+    }
+  }
+
+  while (i < source.length) {
+    const char = source[i]
+    const next = source[i + 1]
+
+    // Line comments
+    if ((syntax === 'c' && char === '/' && next === '/') || (syntax === 'python' && char === '#')) {
+      commentLineSet.add(line)
+      while (i < source.length && source[i] !== '\n') i++
+      continue
+    }
+
+    // Block comments
+    if (syntax === 'c' && char === '/' && next === '*') {
+      i += 2
+      commentLineSet.add(line)
+      while (i < source.length && !(source[i] === '*' && source[i + 1] === '/')) {
+        advance(source[i])
+        commentLineSet.add(line)
+        i++
+      }
+      i += 2
+      continue
+    }
+
+    // Python triple-quoted strings; docstrings count as comments
+    if (syntax === 'python' && (source.startsWith('"""', i) || source.startsWith("'''", i))) {
+      const quote = source.substr(i, 3)
+      const isDocstring = current.trim() === ''
+      i += 3
+      if (isDocstring) commentLineSet.add(line)
+      while (i < source.length && !source.startsWith(quote, i)) {
+        advance(source[i])
+        if (isDocstring) commentLineSet.add(line)
+        i++
+      }
+      i += 3
+      current += isDocstring ? '' : '""'
+      continue
+    }
+
+    // Single-line strings and template literals
+    if (char === '"' || char === "'" || (syntax === 'c' && char === '`')) {
+      i++
+      while (i < source.length && source[i] !== char) {
+        if (source[i] === '\\') i++
+        else if (char !== '`' && source[i] === '\n') break
+        else advance(source[i])
+        i++
+      }
+      i++
+      current += '""'
+      continue
+    }
+
+    if (char === '\n') {
+      advance(char)
+    } else {
+      current += char
+    }
+    i++
+  }
+  out.push(current)
+
+  let codeLines = 0
+  out.forEach((text) => {
+    if (text.trim()) codeLines++
+  })
+
+  return { lines: out, commentLines: commentLineSet.size, codeLines }
+}
+
+const C_DECISIONS = /\b(if|for|while|case|catch)\b|&&|\|\||\?\?|\s\?\s/g
+const C_FUNCTION = /\bfunction\b\s*\*?\s*[\w$]*\s*(<[^>]*>)?\s*\(/g
+const C_ARROW_FUNCTION = /=>\s*\{/g
+// Class and object methods: `name(args) {` or `name(args): Type {`
+const C_METHOD = new RegExp(
+  '^\\s*(?:(?:public|private|protected|static|async|override|readonly|get|set)\\s+)*' +
+    '([\\w$]+)\\s*(<[^>]*>)?\\s*\\([^;()]*\\)\\s*(:\\s*[^;{=\\n]+)?\\{',
+  'gm'
+)
+const C_KEYWORDS = new Set(['if', 'for', 'while', 'switch', 'catch', 'with'])
+
+function analyzeCLike(source: string): { functions: FunctionMetrics[]; stripped: StrippedSource } {
+  const stripped = stripSource(source, 'c')
+  const code = stripped.lines.join('\n')
+
+  // Line number of every character offset
+  const lineStarts = [0]
+  for (let i = 0; i < code.length; i++) {
+    if (code[i] === '\n') lineStarts.push(i + 1)
+  }
+  const lineAt = (offset: number) => {
+    let lo = 0
+    let hi = lineStarts.length - 1
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1
+      if (lineStarts[mid] <= offset) lo = mid
+      else hi = mid - 1
+    }
+    return lo
+  }
+
+  // Matching closing brace for every opening brace
+  const closing = new Map<number, number>()
+  const depthAt = new Int32Array(code.length + 1)
+  const stack: number[] = []
+  for (let i = 0; i < code.length; i++) {
+    depthAt[i] = stack.length
+    if (code[i] === '{') stack.push(i)
+    else if (code[i] === '}' && stack.length > 0) closing.set(stack.pop()!, i)
+  }
+
+  // Function bodies, identified by their opening brace
+  const bodies = new Set<number>()
+  const addBody = (brace: number) => {
+    if (brace !== -1 && closing.has(brace)) bodies.add(brace)
+  }
+
+  for (const match of code.matchAll(C_FUNCTION)) {
+    // Skip the parameter list, which may itself contain braces
+    let i = match.index! + match[0].length
+    for (let depth = 1; i < code.length && depth > 0; i++) {
+      if (code[i] === '(') depth++
+      else if (code[i] === ')') depth--
+    }
+    addBody(code.indexOf('{', i))
+  }
+  for (const match of code.matchAll(C_ARROW_FUNCTION)) {
+    addBody(match.index! + match[0].length - 1)
+  }
+  for (const match of code.matchAll(C_METHOD)) {
+    if (!C_KEYWORDS.has(match[1])) addBody(match.index! + match[0].length - 1)
+  }
+
+  const spans = [...bodies]
+    .map((open) => ({ open, close: closing.get(open)!, complexity: 1, nesting: 0 }))
+    .sort((a, b) => a.open - b.open)
+
+  const decisions = [...code.matchAll(C_DECISIONS)].map((match) => match.index!)
+
+  // One pass over the code with the functions enclosing the current offset on a stack;
+  // function bodies are brace pairs, so they nest properly
+  const enclosing: (typeof spans)[number][] = []
+  let nextSpan = 0
+  let nextDecision = 0
+  for (let i = 0; i < code.length; i++) {
+    while (enclosing.length > 0 && enclosing[enclosing.length - 1].close <= i) enclosing.pop()
+    while (nextSpan < spans.length && spans[nextSpan].open === i) enclosing.push(spans[nextSpan++])
+
+    const span = enclosing[enclosing.length - 1]
+    for (; decisions[nextDecision] === i; nextDecision++) {
+      if (span) span.complexity++
+    }
+    if (span && code[i] === '{' && !bodies.has(i)) {
+      span.nesting = Math.max(span.nesting, depthAt[i] - depthAt[span.open])
+    }
+  }
+
+  return {
+    stripped,
+    functions: spans.map((span) => ({
+      startLine: lineAt(span.open),
+      endLine: lineAt(span.close),
+      complexity: span.complexity,
+      nesting: span.nesting,
+    })),
+  }
+}
+
+const PYTHON_DECISIONS = /\b(if|elif|for|while|except|and|or|case)\b/g
+const PYTHON_BLOCKS =
+  /^(if|elif|else|for|while|with|try|except|finally|match|case|async\s+for|async\s+with)\b.*:$/
+
+function analyzePython(source: string): { functions: FunctionMetrics[]; stripped: StrippedSource } {
+  const stripped = stripSource(source, 'python')
+  const lines = stripped.lines
+  const indentOf = (text: string) => text.length - text.trimStart().length
+  const functions: FunctionMetrics[] = []
+
+  for (let start = 0; start < lines.length; start++) {
+    const header = lines[start]
+    if (!/^\s*(async\s+)?def\s+\w+/.test(header)) continue
+
+    const indent = indentOf(header)
+    let end = start
+    let complexity = 1
+    let nesting = 0
+    const blocks: number[] = []
+
+    for (let i = start + 1; i < lines.length; i++) {
+      const text = lines[i]
+      if (!text.trim()) continue
+
+      const lineIndent = indentOf(text)
+      if (lineIndent <= indent) break
+      end = i
+
+      // Nested functions are measured on their own
+      if (/^\s*(async\s+)?def\s+\w+/.test(text)) {
+        const nestedIndent = lineIndent
+        const inNested = (text: string) => !text.trim() || indentOf(text) > nestedIndent
+        while (i + 1 < lines.length && inNested(lines[i + 1])) {
+          i++
+          if (lines[i].trim()) end = i
+        }
+        continue
+      }
+
+      while (blocks.length > 0 && blocks[blocks.length - 1] >= lineIndent) blocks.pop()
+      complexity += (text.match(PYTHON_DECISIONS) || []).length
+
+      if (PYTHON_BLOCKS.test(text.trim())) {
+        blocks.push(lineIndent)
+        nesting = Math.max(nesting, blocks.length)
+      }
+    }
+
+    functions.push({ startLine: start, endLine: end, complexity, nesting })
+  }
+
+  return { stripped, functions }
+}
+
+/**
+ * Measure a source file, or return null for languages without an analyzer
+ */
+export function analyzeCode(source: string, language: string | null): CodeMetrics | null {
+  if (!supportsCodeMetrics(language)) return null
+
+  const { functions, stripped } =
+    language === 'Python' ? analyzePython(source) : analyzeCLike(source)
+  const lengths = functions.map((f) => f.endLine - f.startLine + 1)
+  // Not `Math.max(...values)`, which overflows the stack for very many functions
+  const max = (values: number[]) => values.reduce((a, b) => Math.max(a, b), 0)
+
+  return {
+    functionCount: functions.length,
+    totalComplexity: functions.reduce((sum, f) => sum + f.complexity, 0),
+    maxComplexity: max(functions.map((f) => f.complexity)),
+    maxFunctionLength: max(lengths),
+    totalFunctionLength: lengths.reduce((sum, length) => sum + length, 0),
+    maxNesting: max(functions.map((f) => f.nesting)),
+    complexFunctions: functions.filter((f) => f.complexity > QUALITY_THRESHOLDS.complexity).length,
+    longFunctions: lengths.filter((length) => length > QUALITY_THRESHOLDS.functionLength).length,
+    deeplyNestedFunctions: functions.filter((f) => f.nesting > QUALITY_THRESHOLDS.nesting).length,
+    codeLines: stripped.codeLines,
+    commentLines: stripped.commentLines,
+  }
+}
+
+/**
+ * Sum metrics of several files; maxima stay maxima
+ */
+export function combineMetrics(metrics: CodeMetrics[]): CodeMetrics {
+  const total: CodeMetrics = {
+    functionCount: 0,
+    totalComplexity: 0,
+    maxComplexity: 0,
+    maxFunctionLength: 0,
+    totalFunctionLength: 0,
+    maxNesting: 0,
+    complexFunctions: 0,
+    longFunctions: 0,
+    deeplyNestedFunctions: 0,
+    codeLines: 0,
+    commentLines: 0,
+  }
+
+  for (const m of metrics) {
+    for (const key of Object.keys(total) as (keyof CodeMetrics)[]) {
+      total[key] = key.startsWith('max') ? Math.max(total[key], m[key]) : total[key] + m[key]
+    }
+  }
+
+  return total
+}
+
+export interface QualityScore {
+  score: number
+  components: {
+    name: string
+    description: string
+    value: number
+    weight: number
+    points: number
+  }[]
+}
+
+/**
+ * 0-100 quality score: the share of functions within the complexity, length and nesting
+ * limits plus comment density, each weighted and reported as its own component
+ */
+export function calculateQualityScore(metrics: CodeMetrics): QualityScore {
+  const withinLimit = (count: number) =>
+    metrics.functionCount > 0 ? 1 - count / metrics.functionCount : 1
+  const lines = metrics.codeLines + metrics.commentLines
+  const density = lines > 0 ? metrics.commentLines / lines : 0
+
+  const components = [
+    {
+      name: 'complexity',
+      description: `Functions with cyclomatic complexity ≤ ${QUALITY_THRESHOLDS.complexity}`,
+      value: withinLimit(metrics.complexFunctions),
+      weight: QUALITY_WEIGHTS.complexity,
+    },
+    {
+      name: 'functionLength',
+      description: `Functions of ≤ ${QUALITY_THRESHOLDS.functionLength} lines`,
+      value: withinLimit(metrics.longFunctions),
+      weight: QUALITY_WEIGHTS.functionLength,
+    },
+    {
+      name: 'nesting',
+      description: `Functions nested ≤ ${QUALITY_THRESHOLDS.nesting} blocks deep`,
+      value: withinLimit(metrics.deeplyNestedFunctions),
+      weight: QUALITY_WEIGHTS.nesting,
+    },
+    {
+      name: 'comments',
+      description: `Comment density against a ${QUALITY_THRESHOLDS.commentDensity * 100}% target`,
+      value: Math.min(density / QUALITY_THRESHOLDS.commentDensity, 1),
+      weight: QUALITY_WEIGHTS.comments,
+    },
+  ].map((component) => ({
+    ...component,
+    value: Math.round(component.value * 1000) / 1000,
+    points: Math.round(component.value * component.weight * 1000) / 10,
+  }))
+
+  return {
+    score: Math.round(components.reduce((sum, c) => sum + c.value * c.weight, 0) * 100),
+    components,
+  }
+}
@@ -0,0 +1,577 @@
+import * as path from 'path'
+
+/**
+ * Dependency extraction from package manifests and lockfiles.
+ * Ecosystem names follow OSV: npm, PyPI, Go, crates.io, Maven.
+ */
+
+export type Ecosystem = 'npm' | 'PyPI' | 'Go' | 'crates.io' | 'Maven'
+
+export interface DependencyData {
+  name: string
+  version: string | null // Resolved version from a lockfile, or the manifest's version range
+  ecosystem: Ecosystem
+  isDirect: boolean
+  manifestPath: string
+  license: string | null // SPDX expression, where the lockfile records one (npm)
+}
+
+// `direct` is left out where a lockfile cannot tell; the manifest next to it decides
+interface ParsedDependency {
+  name: string
+  version: string | null
+  direct?: boolean
+  license?: string | null
+}
+
+interface ManifestParser {
+  ecosystem: Ecosystem
+  lockfile: boolean
+  parse: (content: string) => ParsedDependency[]
+}
+
+/**
+ * PEP 503 normalized Python package name
+ */
+export function normalizePythonName(name: string): string {
+  return name.toLowerCase().replace(/[-_.]+/g, '-')
+}
+
+/**
+ * Split `name@version`, keeping the leading `@` of scoped npm packages
+ */
+function splitAtVersion(spec: string): [string, string] {
+  const at = spec.indexOf('@', 1)
+  return at === -1 ? [spec, ''] : [spec.slice(0, at), spec.slice(at + 1)]
+}
+
+/**
+ * npm license field: an SPDX expression, or the deprecated `{ type }` and `licenses` forms
+ */
+function npmLicense(pkg: { license?: unknown; licenses?: unknown }): string | null {
+  const type = (value: any) => (typeof value === 'string' ? value : value?.type || null)
+
+  if (pkg.license) return type(pkg.license)
+  if (Array.isArray(pkg.licenses) && pkg.licenses.length > 0) {
+    return pkg.licenses.map(type).filter(Boolean).join(' OR ') || null
+  }
+  return null
+}
+
+function parsePackageJson(content: string): ParsedDependency[] {
+  const pkg = JSON.parse(content)
+  const fields = ['dependencies', 'devDependencies', 'optionalDependencies', 'peerDependencies']
+
+  return fields.flatMap((field) =>
+    Object.entries((pkg[field] || {}) as Record<string, string>).map(([name, version]) => ({
+      name,
+      version: version || null,
+    }))
+  )
+}
+
+function parsePackageLock(content: string): ParsedDependency[] {
+  const lock = JSON.parse(content)
+
+  // Lockfile v2 and v3: flat `packages` keyed by install path
+  if (lock.packages) {
+    const root = lock.packages[''] || {}
+    const rootNames = new Set(
+      ['dependencies', 'devDependencies', 'optionalDependencies', 'peerDependencies'].flatMap(
+        (field) => Object.keys(root[field] || {})
+      )
+    )
+
+    return Object.entries(lock.packages as Record<string, any>)
+      .filter(([key, entry]) => key.includes('node_modules/') && !entry.link)
+      .map(([key, entry]) => {
+        const name = entry.name || key.slice(key.lastIndexOf('node_modules/') + 13)
+        return {
+          name,
+          version: entry.version || null,
+          direct: key === `node_modules/${name}` && rootNames.has(name),
+          license: npmLicense(entry),
+        }
+      })
+  }
+
+  // Lockfile v1: nested `dependencies`
+  const dependencies: ParsedDependency[] = []
+  const walk = (tree: Record<string, any>) => {
+    for (const [name, entry] of Object.entries(tree)) {
+      dependencies.push({ name, version: entry.version || null })
+      walk(entry.dependencies || {})
+    }
+  }
+  walk(lock.dependencies || {})
+
+  return dependencies
+}
+
+function parseYarnLock(content: string): ParsedDependency[] {
+  const dependencies: ParsedDependency[] = []
+  let name: string | null = null
+
+  for (const line of content.split('\n')) {
+    if (line && !line.startsWith(' ') && !line.startsWith('#') && line.trimEnd().endsWith(':')) {
+      // `"@babel/core@^7.0.0", "@babel/core@^7.1.0":` (v1) or `"@babel/core@npm:^7.0.0":` (berry)
+      const spec = line.split(',')[0].replace(/:$/, '').replace(/"/g, '').trim()
+      name = spec === '__metadata' || spec.includes('@workspace:') ? null : splitAtVersion(spec)[0]
+      continue
+    }
+
+    const version = line.match(/^\s+version:?\s+"?([^"\s]+)"?/)
+    if (name && version) {
+      dependencies.push({ name, version: version[1] })
+      name = null
+    }
+  }
+
+  return dependencies
+}
+
+function parsePnpmLock(content: string): ParsedDependency[] {
+  const dependencies: ParsedDependency[] = []
+  let inPackages = false
+
+  for (const line of content.split('\n')) {
+    if (/^\S/.test(line)) {
+      inPackages = line.trim() === 'packages:'
+      continue
+    }
+
+    // `  /name@1.2.3:` (v6), `  /name/1.2.3:` (v5) or `  '@scope/name@1.2.3':` (v9)
+    const key = inPackages && line.match(/^ {2}(\S.*):\s*$/)
+    if (!key) continue
+
+    const spec = key[1].replace(/['"]/g, '').replace(/\(.*$/, '').replace(/^\//, '')
+    const slash = spec.lastIndexOf('/')
+    const [atName, atVersion] = splitAtVersion(spec)
+    const [name, version] = atVersion
+      ? [atName, atVersion]
+      : [spec.slice(0, slash), spec.slice(slash + 1)]
+    if (name && version) {
+      dependencies.push({ name, version })
+    }
+  }
+
+  return dependencies
+}
+
+/**
+ * A PEP 508 requirement such as `requests[socks]>=2.0; python_version > "3"`
+ */
+function parseRequirement(requirement: string): ParsedDependency | null {
+  const match = requirement
+    .split(';')[0]
+    .trim()
+    .match(/^([A-Za-z0-9][A-Za-z0-9._-]*)\s*(\[[^\]]*\])?\s*(.*)$/)
+  if (!match) return null
+
+  const spec = match[3].trim()
+  return {
+    name: normalizePythonName(match[1]),
+    version: spec.startsWith('==') ? spec.slice(2).trim() : spec || null,
+  }
+}
+
+function parseRequirementsTxt(content: string): ParsedDependency[] {
+  return content
+    .split('\n')
+    .map((line) => line.replace(/(^|\s)#.*$/, '').trim())
+    // Options, includes and bare URLs such as `git+https://...` name no package
+    .filter((line) => line && !line.startsWith('-') && !/^[\w+.-]+:\/\//.test(line))
+    .map(parseRequirement)
+    .filter((dependency): dependency is ParsedDependency => dependency !== null)
+}
+
+function parsePipfileLock(content: string): ParsedDependency[] {
+  const lock = JSON.parse(content)
+
+  return ['default', 'develop'].flatMap((section) =>
+    Object.entries((lock[section] || {}) as Record<string, { version?: string }>).map(
+      ([name, entry]) => ({
+        name: normalizePythonName(name),
+        version: entry.version ? entry.version.replace(/^==/, '') : null,
+      })
+    )
+  )
+}
+
+interface TomlTable {
+  name: string
+  values: Map<string, string>
+}
+
+/**
+ * Minimal TOML reader: tables and their raw `key = value` pairs, enough for manifests
+ */
+function readToml(content: string): TomlTable[] {
+  const tables: TomlTable[] = [{ name: '', values: new Map() }]
+  let pending: { key: string; value: string } | null = null
+
+  // Bracket depth outside of strings, to join multi-line arrays and inline tables
+  const depth = (text: string) => {
+    let open = 0
+    let quote: string | null = null
+    for (const char of text) {
+      if (quote) {
+        if (char === quote) quote = null
+      } else if (char === '"' || char === "'") {
+        quote = char
+      } else if (char === '[' || char === '{') {
+        open++
+      } else if (char === ']' || char === '}') {
+        open--
+      }
+    }
+    return open
+  }
+
+  for (const rawLine of content.split('\n')) {
+    const line = rawLine.replace(/\s+#[^"']*$/, '').trim()
+    if (!line || line.startsWith('#')) continue
+
+    if (pending) {
+      pending.value += ` ${line}`
+      if (depth(pending.value) <= 0) {
+        tables[tables.length - 1].values.set(pending.key, pending.value)
+        pending = null
+      }
+      continue
+    }
+
+    const header = line.match(/^\[\[?\s*([^\]]+?)\s*\]\]?$/)
+    if (header) {
+      tables.push({ name: header[1].replace(/["']/g, ''), values: new Map() })
+      continue
+    }
+
+    const pair = line.match(/^("[^"]+"|'[^']+'|[\w.-]+)\s*=\s*(.*)$/)
+    if (!pair) continue
+
+    const key = pair[1].replace(/["']/g, '')
+    if (depth(pair[2]) > 0) {
+      pending = { key, value: pair[2] }
+    } else {
+      tables[tables.length - 1].values.set(key, pair[2])
+    }
+  }
+
+  return tables
+}
+
+function tomlString(value: string | undefined): string | null {
+  const match = value?.match(/^\s*["']([^"']*)["']/)
+  return match ? match[1] : null
+}
+
+function tomlStrings(value: string | undefined): string[] {
+  return [...(value || '').matchAll(/"([^"]*)"|'([^']*)'/g)].map((m) => m[1] ?? m[2])
+}
+
+/**
+ * Version of a dependency given as `"1.0"` or `{ version = "1.0", ... }`
+ */
+function tomlVersion(value: string): string | null {
+  return tomlString(value) ?? tomlString(value.match(/\bversion\s*=\s*(["'][^"']*["'])/)?.[1])
+}
+
+function parseLockPackages(content: string, normalize = (name: string) => name) {
+  return readToml(content)
+    .filter((table) => table.name === 'package' && table.values.has('name'))
+    .map((table) => ({
+      name: normalize(tomlString(table.values.get('name'))!),
+      version: tomlString(table.values.get('version')),
+      source: table.values.get('source'),
+    }))
+}
+
+const POETRY_SECTIONS =
+  /^tool\.poetry\.(dependencies|dev-dependencies|group\.[\w-]+\.dependencies)$/
+
+function parsePyproject(content: string): ParsedDependency[] {
+  const requirements: string[] = []
+  const dependencies: ParsedDependency[] = []
+
+  for (const table of readToml(content)) {
+    // PEP 621 requirement lists
+    if (table.name === 'project') {
+      requirements.push(...tomlStrings(table.values.get('dependencies')))
+    } else if (table.name === 'project.optional-dependencies') {
+      for (const value of table.values.values()) {
+        requirements.push(...tomlStrings(value))
+      }
+    } else if (POETRY_SECTIONS.test(table.name)) {
+      for (const [name, value] of table.values) {
+        if (name !== 'python') {
+          dependencies.push({ name: normalizePythonName(name), version: tomlVersion(value) })
+        }
+      }
+    }
+  }
+
+  for (const requirement of requirements) {
+    const dependency = parseRequirement(requirement)
+    if (dependency) dependencies.push(dependency)
+  }
+
+  return dependencies
+}
+
+function parseGoMod(content: string): ParsedDependency[] {
+  const dependencies: ParsedDependency[] = []
+  let inRequire = false
+
+  for (const line of content.split('\n')) {
+    const trimmed = line.trim()
+
+    if (/^require\s*\($/.test(trimmed)) {
+      inRequire = true
+      continue
+    }
+    if (inRequire && trimmed === ')') {
+      inRequire = false
+      continue
+    }
+
+    const requirement = inRequire ? trimmed : trimmed.match(/^require\s+(.*)$/)?.[1]
+    const match = requirement?.match(/^(\S+)\s+(v\S+)/)
+    if (match) {
+      dependencies.push({
+        name: match[1],
+        version: match[2],
+        direct: !/\/\/\s*indirect\b/.test(requirement!),
+      })
+    }
+  }
+
+  return dependencies
+}
+
+function parseCargoToml(content: string): ParsedDependency[] {
+  const dependencies: ParsedDependency[] = []
+  const section = /^(workspace\.|target\..+\.)?(dependencies|dev-dependencies|build-dependencies)$/
+
+  for (const table of readToml(content)) {
+    if (section.test(table.name)) {
+      for (const [name, value] of table.values) {
+        dependencies.push({ name, version: tomlVersion(value) })
+      }
+      continue
+    }
+
+    // `[dependencies.serde]` tables
+    const single = table.name.match(/^(?:target\..+\.)?(?:dev-|build-)?dependencies\.(.+)$/)
+    if (single) {
+      dependencies.push({ name: single[1], version: tomlString(table.values.get('version')) })
+    }
+  }
+
+  return dependencies
+}
+
+function parseCargoLock(content: string): ParsedDependency[] {
+  // Packages without a source are the workspace's own crates
+  return parseLockPackages(content)
+    .filter((pkg) => pkg.source)
+    .map(({ name, version }) => ({ name, version }))
+}
+
+function parsePoetryLock(content: string): ParsedDependency[] {
+  return parseLockPackages(content, normalizePythonName).map(({ name, version }) => ({
+    name,
+    version,
+  }))
+}
+
+function parsePomXml(content: string): ParsedDependency[] {
+  const xml = content
+    .replace(/<!--[\s\S]*?-->/g, '')
+    // Managed versions and build plugins are not dependencies of the project itself
+    .replace(/<dependencyManagement>[\s\S]*?<\/dependencyManagement>/g, '')
+    .replace(/<build>[\s\S]*?<\/build>/g, '')
+
+  const tag = (text: string, name: string) =>
+    text.match(new RegExp(`<${name}>\\s*([^<]*?)\\s*</${name}>`))?.[1] || null
+
+  const properties = new Map<string, string>()
+  const propertiesBlock = xml.match(/<properties>([\s\S]*?)<\/properties>/)?.[1] || ''
+  for (const match of propertiesBlock.matchAll(/<([\w.-]+)>\s*([^<]*?)\s*<\/\1>/g)) {
+    properties.set(match[1], match[2])
+  }
+  const projectVersion = tag(xml.replace(/<parent>[\s\S]*?<\/parent>/, ''), 'version')
+  if (projectVersion) properties.set('project.version', projectVersion)
+
+  const resolve = (value: string | null) => {
+    if (!value) return null
+    const resolved = value.replace(/\$\{([^}]+)\}/g, (ref, key) => properties.get(key) ?? ref)
+    return resolved.includes('${') ? null : resolved
+  }
+
+  return [...xml.matchAll(/<dependency>([\s\S]*?)<\/dependency>/g)]
+    .map((match) => ({
+      groupId: resolve(tag(match[1], 'groupId')),
+      artifactId: resolve(tag(match[1], 'artifactId')),
+      version: resolve(tag(match[1], 'version')),
+    }))
+    .filter((dependency) => dependency.groupId && dependency.artifactId)
+    .map((dependency) => ({
+      name: `${dependency.groupId}:${dependency.artifactId}`,
+      version: dependency.version,
+    }))
+}
+
+const PARSERS: Record<string, ManifestParser> = {
+  'package.json': { ecosystem: 'npm', lockfile: false, parse: parsePackageJson },
+  'package-lock.json': { ecosystem: 'npm', lockfile: true, parse: parsePackageLock },
+  'npm-shrinkwrap.json': { ecosystem: 'npm', lockfile: true, parse: parsePackageLock },
+  'yarn.lock': { ecosystem: 'npm', lockfile: true, parse: parseYarnLock },
+  'pnpm-lock.yaml': { ecosystem: 'npm', lockfile: true, parse: parsePnpmLock },
+  'requirements.txt': { ecosystem: 'PyPI', lockfile: false, parse: parseRequirementsTxt },
+  'pyproject.toml': { ecosystem: 'PyPI', lockfile: false, parse: parsePyproject },
+  'Pipfile.lock': { ecosystem: 'PyPI', lockfile: true, parse: parsePipfileLock },
+  'poetry.lock': { ecosystem: 'PyPI', lockfile: true, parse: parsePoetryLock },
+  'go.mod': { ecosystem: 'Go', lockfile: false, parse: parseGoMod },
+  'Cargo.toml': { ecosystem: 'crates.io', lockfile: false, parse: parseCargoToml },
+  'Cargo.lock': { ecosystem: 'crates.io', lockfile: true, parse: parseCargoLock },
+  'pom.xml': { ecosystem: 'Maven', lockfile: false, parse: parsePomXml },
+}
+
+function parserFor(filePath: string): ManifestParser | null {
+  const name = path.posix.basename(filePath)
+  // requirements-dev.txt, requirements/base.txt and similar
+  const isRequirements =
+    /^requirements[\w.-]*\.txt$/.test(name) || /(^|\/)requirements\/[\w.-]+\.txt$/.test(filePath)
+  if (isRequirements) {
+    return PARSERS['requirements.txt']
+  }
+  return PARSERS[name] || null
+}
+
+export function isManifestPath(filePath: string): boolean {
+  return parserFor(filePath) !== null
+}
+
+/**
+ * Dependencies declared by a set of manifests and lockfiles. Within a directory, lockfile
+ * entries win with their resolved versions and transitive dependencies, and the manifest
+ * beside them tells which ones are direct.
+ */
+export function extractDependencies(files: { path: string; content: string }[]): DependencyData[] {
+  // Manifests and lockfiles of one ecosystem in one directory, by path
+  const groups = new Map<
+    string,
+    {
+      ecosystem: Ecosystem
+      manifests: Map<string, ParsedDependency[]>
+      lockfiles: Map<string, ParsedDependency[]>
+    }
+  >()
+
+  for (const file of files) {
+    const parser = parserFor(file.path)
+    if (!parser) continue
+
+    let parsed: ParsedDependency[]
+    try {
+      parsed = parser.parse(file.content)
+    } catch (error: any) {
+      console.error(`Failed to parse ${file.path}:`, error.message)
+      continue
+    }
+
+    const key = `${path.posix.dirname(file.path)}\0${parser.ecosystem}`
+    const group = groups.get(key) || {
+      ecosystem: parser.ecosystem,
+      manifests: new Map(),
+      lockfiles: new Map(),
+    }
+    const target = parser.lockfile ? group.lockfiles : group.manifests
+    target.set(file.path, parsed)
+    groups.set(key, group)
+  }
+
+  const dependencies: DependencyData[] = []
+
+  for (const { ecosystem, manifests, lockfiles } of groups.values()) {
+    const directNames = new Set<string>()
+    for (const parsed of manifests.values()) {
+      parsed.filter((d) => d.direct !== false).forEach((d) => directNames.add(d.name))
+    }
+
+    const seen = new Set<string>()
+    const add = (dependency: ParsedDependency, manifestPath: string, isDirect: boolean) => {
+      const key = `${dependency.name}@${dependency.version}`
+      if (seen.has(key)) return
+
+      seen.add(key)
+      dependencies.push({
+        name: dependency.name,
+        version: dependency.version,
+        ecosystem,
+        isDirect,
+        manifestPath,
+        license: dependency.license || null,
+      })
+    }
+
+    const locked = new Set<string>()
+    for (const [lockPath, parsed] of lockfiles) {
+      for (const dependency of parsed) {
+        add(dependency, lockPath, dependency.direct ?? directNames.has(dependency.name))
+        locked.add(dependency.name)
+      }
+    }
+
+    // Manifest entries missing from the lockfile keep their version range
+    for (const [manifestPath, parsed] of manifests) {
+      for (const dependency of parsed) {
+        if (!locked.has(dependency.name)) {
+          add(dependency, manifestPath, dependency.direct !== false)
+        }
+      }
+    }
+  }
+
+  return dependencies
+}
+
+/**
+ * License declared by the manifests at the repository root: package.json, Cargo.toml or
+ * pyproject.toml (PEP 621 or Poetry)
+ */
+export function extractDeclaredLicense(files: { path: string; content: string }[]): string | null {
+  const root = new Map(files.filter((file) => !file.path.includes('/')).map((f) => [f.path, f]))
+
+  try {
+    const pkg = root.get('package.json')
+    if (pkg) {
+      const license = npmLicense(JSON.parse(pkg.content))
+      if (license) return license
+    }
+
+    const cargo = root.get('Cargo.toml')
+    const pyproject = root.get('pyproject.toml')
+    const tables = [
+      ...(cargo ? readToml(cargo.content).filter((table) => table.name === 'package') : []),
+      ...(pyproject
+        ? readToml(pyproject.content).filter(
+            (table) => table.name === 'project' || table.name === 'tool.poetry'
+          )
+        : []),
+    ]
+
+    for (const table of tables) {
+      // PEP 621 also allows `license = { text = "MIT" }`
+      const value = table.values.get('license')
+      const text = value?.match(/\btext\s*=\s*(["'][^"']*["'])/)?.[1]
+      const license = tomlString(value) ?? tomlString(text)
+      if (license) return license
+    }
+  } catch (error: any) {
+    console.error('Failed to read the declared license:', error.message)
+  }
+
+  return null
+}
@@ -0,0 +1,299 @@
+import * as path from 'path'
+import corpus from '../data/licenses.json'
+
+/**
+ * License detection: license files classified against the bundled SPDX license texts,
+ * SPDX headers in source files, and the copyleft category of SPDX expressions
+ */
+
+export type LicenseCategory = 'permissive' | 'weak-copyleft' | 'copyleft' | 'unknown'
+
+export interface LicenseMatch {
+  license: string // SPDX identifier of the closest license text
+  confidence: number // Similarity to that text, 0-1
+}
+
+// Similarity a license file needs to be classified as the closest text
+const MATCH_THRESHOLD = 0.8
+// Share of a license text that must appear in a file that also carries other text
+const CONTAINMENT_THRESHOLD = 0.95
+// Consecutive word pairs of a license text that mark where it starts within a file
+const MATCH_RUN = 8
+
+// Families by identifier prefix, e.g. `BSD-3-Clause`; LGPL must not fall under GPL
+const WEAK_COPYLEFT = /^(LGPL|MPL|EPL|CDDL|CPL|MS-RL|APSL|CECILL-C|ErlPL|IPL|LPL)(?![a-z])/i
+const COPYLEFT =
+  /^(A?GPL|SSPL|OSL|EUPL|CECILL-\d|RPL|CPAL|Sleepycat|CC-BY-SA|CC-BY-NC-SA)(?![a-z])/i
+const PERMISSIVE = new RegExp(
+  `^(${[
+    'MIT',
+    'ISC',
+    '0?BSD',
+    'Apache',
+    'Unlicense',
+    'CC0',
+    'CC-BY-\\d',
+    'Zlib',
+    'BlueOak',
+    'Python',
+    'PSF',
+    'WTFPL',
+    'BSL-1\\.0',
+    'X11',
+    'Artistic-2',
+    'PostgreSQL',
+    'UPL',
+    'NCSA',
+    'Unicode',
+  ].join('|')})(?![a-z])`,
+  'i'
+)
+
+const CATEGORY_RANK: LicenseCategory[] = ['permissive', 'weak-copyleft', 'copyleft', 'unknown']
+
+/**
+ * LICENSE, LICENSE.md, LICENSE-MIT, COPYING, COPYING.LESSER, UNLICENSE and the like
+ */
+export function isLicenseFilePath(filePath: string): boolean {
+  const name = path.posix.basename(filePath).replace(/\.(md|markdown|txt|rst)$/i, '')
+  const match = name.match(/^((?:un)?licen[cs]e|copying)(.*)$/i)
+  if (!match) return false
+
+  // `license.ts` and the like are code, not license texts
+  const suffix = match[2]
+  return suffix === '' || /^[-_]/.test(suffix) || /^\.[A-Z]/.test(suffix)
+}
+
+/**
+ * Word pairs of a license text in order, leaving out what differs between copies of one
+ * license: copyright statements, case, punctuation, comment markers and spelling
+ */
+function wordPairs(text: string): string[] {
+  const words = text
+    .split('\n')
+    .filter((line) => !/^\W*copyright\s+(\(c\)|©|\d{4}|<)/i.test(line.trim()))
+    .join(' ')
+    .toLowerCase()
+    .replace(/licence/g, 'license')
+    .replace(/&/g, ' and ')
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean)
+
+  return words.slice(1).map((word, i) => `${words[i]} ${word}`)
+}
+
+let corpusPairs: { license: string; pairs: Set<string> }[] | null = null
+
+function licenseTexts() {
+  if (!corpusPairs) {
+    corpusPairs = Object.entries(corpus).map(([license, entry]) => ({
+      license,
+      pairs: new Set(wordPairs(entry.text)),
+    }))
+  }
+  return corpusPairs
+}
+
+export function licenseName(license: string): string | null {
+  return (corpus as Record<string, { name: string }>)[license]?.name || null
+}
+
+function sharedShare(pairs: Set<string>, within: Set<string>): number {
+  let shared = 0
+  for (const pair of pairs) {
+    if (within.has(pair)) shared++
+  }
+  return shared / pairs.size
+}
+
+/**
+ * Classify a license file against the bundled license texts. A file holding several
+ * licenses, such as a license followed by notices for bundled code, is classified by the
+ * first complete license text in it.
+ */
+export function classifyLicenseText(text: string): LicenseMatch | null {
+  const sequence = wordPairs(text)
+  const pairs = new Set(sequence)
+  if (pairs.size === 0) return null
+
+  let best: LicenseMatch | null = null
+  let contained: { license: string; pairs: Set<string>; share: number }[] = []
+
+  for (const candidate of licenseTexts()) {
+    const share = sharedShare(candidate.pairs, pairs)
+
+    // Sørensen-Dice coefficient over word pairs
+    const similarity = (2 * share * candidate.pairs.size) / (pairs.size + candidate.pairs.size)
+    if (!best || similarity > best.confidence) {
+      best = { license: candidate.license, confidence: similarity }
+    }
+
+    if (share >= CONTAINMENT_THRESHOLD) {
+      contained.push({ ...candidate, share })
+    }
+  }
+
+  // Texts found only as part of a longer one, like 0BSD within ISC, do not count
+  contained = contained.filter(
+    (candidate) =>
+      !contained.some(
+        (other) =>
+          other.pairs.size > candidate.pairs.size &&
+          sharedShare(candidate.pairs, other.pairs) >= CONTAINMENT_THRESHOLD
+      )
+  )
+
+  let match: LicenseMatch | null = null
+  if (contained.length > 1) {
+    // Several complete licenses: the one whose wording starts first
+    let firstPosition = Infinity
+    for (const candidate of contained) {
+      const position = sequence.findIndex((_, i) =>
+        sequence.slice(i, i + MATCH_RUN).every((pair) => candidate.pairs.has(pair))
+      )
+      if (position !== -1 && position < firstPosition) {
+        firstPosition = position
+        match = { license: candidate.license, confidence: candidate.share }
+      }
+    }
+  }
+  if (!match && best && best.confidence >= MATCH_THRESHOLD) {
+    match = best
+  }
+  if (!match && contained.length === 1) {
+    match = { license: contained[0].license, confidence: contained[0].share }
+  }
+
+  if (!match) return null
+
+  // The AGPL is the GPL-3.0 text with a clause for network use added, so only its title
+  // tells it apart
+  if (match.license === 'GPL-3.0' && /GNU AFFERO GENERAL PUBLIC LICENSE/i.test(text)) {
+    match = { ...match, license: 'AGPL-3.0' }
+  }
+
+  return { license: match.license, confidence: Math.round(match.confidence * 100) / 100 }
+}
+
+/**
+ * SPDX-License-Identifier declared near the top of a source file
+ */
+export function findSpdxHeader(content: string): string | null {
+  const head = content.split('\n', 30).join('\n')
+  const match = head.match(/SPDX-License-Identifier:\s*(.+?)\s*(?:\*\/|-->|#\}|$)/m)
+  return match ? match[1].replace(/^\(\s*(.*?)\s*\)$/, '$1') : null
+}
+
+/**
+ * Identifiers in an SPDX expression, without exceptions such as `WITH Classpath-exception-2.0`
+ */
+export function licenseIds(expression: string): string[] {
+  return expression
+    .replace(/\bWITH\s+\S+/gi, '')
+    .split(/[\s()]+/)
+    .filter((id) => id && !/^(AND|OR)$/i.test(id))
+}
+
+/**
+ * License family of an identifier: `GPL-3.0-or-later`, `GPL-3.0-only` and `GPL-3.0+` are all
+ * GPL-3.0, since license texts cannot tell them apart
+ */
+export function licenseFamily(id: string): string {
+  return id.replace(/(-only|-or-later|\+)$/i, '')
+}
+
+/**
+ * Whether two SPDX expressions name the same licenses, ignoring `-only` and `-or-later`
+ */
+export function isSameLicense(a: string, b: string): boolean {
+  const families = (expression: string) =>
+    [...new Set(licenseIds(expression).map((id) => licenseFamily(id).toLowerCase()))]
+      .sort()
+      .join(' ')
+  return families(a) === families(b)
+}
+
+function idCategory(id: string): LicenseCategory {
+  if (WEAK_COPYLEFT.test(id)) return 'weak-copyleft'
+  if (COPYLEFT.test(id)) return 'copyleft'
+  if (PERMISSIVE.test(id)) return 'permissive'
+  return 'unknown'
+}
+
+/**
+ * Category of an SPDX expression. `OR` offers a choice, so the least restrictive
+ * alternative counts; `AND` requires all, so the most restrictive one does.
+ */
+export function licenseCategory(expression: string | null): LicenseCategory {
+  if (!expression) return 'unknown'
+
+  const tokens = expression.match(/\(|\)|[^\s()]+/g) || []
+  let position = 0
+
+  const parseOr = (): number => {
+    let rank = parseAnd()
+    while (tokens[position]?.toUpperCase() === 'OR') {
+      position++
+      rank = Math.min(rank, parseAnd())
+    }
+    return rank
+  }
+
+  const parseAnd = (): number => {
+    let rank = parseTerm()
+    while (tokens[position]?.toUpperCase() === 'AND') {
+      position++
+      rank = Math.max(rank, parseTerm())
+    }
+    return rank
+  }
+
+  const parseTerm = (): number => {
+    const token = tokens[position++]
+    if (token === undefined) return CATEGORY_RANK.indexOf('unknown')
+
+    let rank: number
+    if (token === '(') {
+      rank = parseOr()
+      position++ // Closing parenthesis
+    } else {
+      rank = CATEGORY_RANK.indexOf(idCategory(token))
+    }
+
+    // Exceptions only relax a license, e.g. GPL-2.0 WITH Classpath-exception-2.0
+    if (tokens[position]?.toUpperCase() === 'WITH') position += 2
+    return rank
+  }
+
+  return CATEGORY_RANK[parseOr()] || 'unknown'
+}
+
+/**
+ * The repository's license from the license files at its root and the license declared by
+ * its root manifest. The declaration is preferred when it agrees with the files, being
+ * more precise (e.g. `GPL-3.0-or-later`), and decides when there are no readable files.
+ */
+export function repositoryLicense(
+  rootLicenses: string[],
+  declared: string | null
+): string | null {
+  let detected = [...new Set(rootLicenses)].sort()
+
+  // COPYING with the GPL and COPYING.LESSER with the additional LGPL permissions
+  if (detected.includes('LGPL-3.0') && detected.includes('GPL-3.0')) {
+    detected = detected.filter((license) => license !== 'GPL-3.0')
+  }
+
+  if (detected.length === 0) return declared
+
+  const declaredFamilies = new Set(
+    licenseIds(declared || '').map((id) => licenseFamily(id).toLowerCase())
+  )
+  if (detected.every((license) => declaredFamilies.has(license.toLowerCase()))) {
+    return declared
+  }
+
+  // Several license files at the root usually offer a choice, as LICENSE-MIT and
+  // LICENSE-APACHE do
+  return detected.join(' OR ')
+}
@@ -0,0 +1,319 @@
+/**
+ * Language detection modelled on GitHub Linguist: .gitattributes overrides,
+ * vendored/generated exclusion, filenames, shebangs, extensions and content heuristics
+ */
+
+export type LanguageType = 'programming' | 'markup' | 'data' | 'prose'
+
+// Languages not listed here are treated as programming languages
+const LANGUAGE_TYPES: Record<string, LanguageType> = {
+  HTML: 'markup',
+  CSS: 'markup',
+  SCSS: 'markup',
+  Sass: 'markup',
+  Less: 'markup',
+  Vue: 'markup',
+  Svelte: 'markup',
+  JSON: 'data',
+  YAML: 'data',
+  TOML: 'data',
+  XML: 'data',
+  INI: 'data',
+  CSV: 'data',
+  SVG: 'data',
+  Markdown: 'prose',
+  reStructuredText: 'prose',
+  Text: 'prose',
+}
+
+export function getLanguageType(language: string): LanguageType {
+  return LANGUAGE_TYPES[language] || 'programming'
+}
+
+/**
+ * Whether a language counts towards repository language statistics
+ */
+export function isStatsLanguage(language: string): boolean {
+  const type = getLanguageType(language)
+  return type === 'programming' || type === 'markup'
+}
+
+const FILENAMES: Record<string, string> = {
+  Dockerfile: 'Dockerfile',
+  Containerfile: 'Dockerfile',
+  Makefile: 'Makefile',
+  GNUmakefile: 'Makefile',
+  makefile: 'Makefile',
+  'CMakeLists.txt': 'CMake',
+  Rakefile: 'Ruby',
+  Gemfile: 'Ruby',
+  Podfile: 'Ruby',
+  Vagrantfile: 'Ruby',
+  Jenkinsfile: 'Groovy',
+  BUILD: 'Starlark',
+  'BUILD.bazel': 'Starlark',
+  WORKSPACE: 'Starlark',
+  '.bashrc': 'Shell',
+  '.zshrc': 'Shell',
+  '.profile': 'Shell',
+}
+
+const EXTENSIONS: Record<string, string> = {
+  // JavaScript/TypeScript
+  js: 'JavaScript',
+  jsx: 'JavaScript',
+  mjs: 'JavaScript',
+  cjs: 'JavaScript',
+  ts: 'TypeScript',
+  tsx: 'TypeScript',
+  mts: 'TypeScript',
+  cts: 'TypeScript',
+  // Python
+  py: 'Python',
+  pyw: 'Python',
+  pyx: 'Cython',
+  pyi: 'Python',
+  // JVM
+  java: 'Java',
+  kt: 'Kotlin',
+  kts: 'Kotlin',
+  scala: 'Scala',
+  sc: 'Scala',
+  groovy: 'Groovy',
+  gradle: 'Groovy',
+  clj: 'Clojure',
+  // C family
+  c: 'C',
+  cpp: 'C++',
+  cc: 'C++',
+  cxx: 'C++',
+  hpp: 'C++',
+  hh: 'C++',
+  hxx: 'C++',
+  mm: 'Objective-C++',
+  cs: 'C#',
+  // Other programming languages
+  go: 'Go',
+  rs: 'Rust',
+  rb: 'Ruby',
+  php: 'PHP',
+  swift: 'Swift',
+  r: 'R',
+  lua: 'Lua',
+  dart: 'Dart',
+  ex: 'Elixir',
+  exs: 'Elixir',
+  erl: 'Erlang',
+  hs: 'Haskell',
+  ml: 'OCaml',
+  fs: 'F#',
+  jl: 'Julia',
+  zig: 'Zig',
+  nim: 'Nim',
+  pm: 'Perl',
+  ps1: 'PowerShell',
+  sql: 'SQL',
+  // Shell
+  sh: 'Shell',
+  bash: 'Shell',
+  zsh: 'Shell',
+  fish: 'Shell',
+  // Web
+  html: 'HTML',
+  htm: 'HTML',
+  css: 'CSS',
+  scss: 'SCSS',
+  sass: 'Sass',
+  less: 'Less',
+  vue: 'Vue',
+  svelte: 'Svelte',
+  // Data/Config
+  json: 'JSON',
+  xml: 'XML',
+  svg: 'SVG',
+  yaml: 'YAML',
+  yml: 'YAML',
+  toml: 'TOML',
+  ini: 'INI',
+  csv: 'CSV',
+  // Prose
+  md: 'Markdown',
+  markdown: 'Markdown',
+  rst: 'reStructuredText',
+  txt: 'Text',
+}
+
+const INTERPRETERS: Record<string, string> = {
+  node: 'JavaScript',
+  nodejs: 'JavaScript',
+  deno: 'TypeScript',
+  'ts-node': 'TypeScript',
+  python: 'Python',
+  python2: 'Python',
+  python3: 'Python',
+  ruby: 'Ruby',
+  perl: 'Perl',
+  php: 'PHP',
+  sh: 'Shell',
+  bash: 'Shell',
+  zsh: 'Shell',
+  dash: 'Shell',
+  ksh: 'Shell',
+  fish: 'Shell',
+  lua: 'Lua',
+  Rscript: 'R',
+}
+
+// Extensions shared by several languages, resolved by looking at the content
+const HEURISTICS: Record<string, { language: string; pattern?: RegExp }[]> = {
+  h: [
+    { language: 'Objective-C', pattern: /^\s*(@interface|@protocol|@property|@end\b|#import\s)/m },
+    {
+      language: 'C++',
+      pattern:
+        /^\s*(template\s*<|namespace\s+\w|class\s+\w+\s*(:|\{)|#include\s*<(iostream|string|vector|memory|map)>)|std::/m,
+    },
+    { language: 'C' },
+  ],
+  m: [
+    { language: 'Objective-C', pattern: /^\s*(@interface|@implementation|@import|#import\s)|\[\w+ \w+/m },
+    { language: 'MATLAB', pattern: /^\s*(function\b|%|end\s*$)/m },
+    { language: 'Objective-C' },
+  ],
+  pl: [
+    { language: 'Prolog', pattern: /^\s*:-|^[a-z]\w*\(.*\)\s*:-/m },
+    { language: 'Perl' },
+  ],
+  v: [
+    { language: 'Coq', pattern: /^\s*(Theorem|Lemma|Proof|Definition|Inductive)\b/m },
+    { language: 'Verilog' },
+  ],
+  inc: [{ language: 'PHP', pattern: /<\?php/ }, { language: 'Assembly' }],
+}
+
+const VENDORED_PATTERNS = [
+  /(^|\/)node_modules\//,
+  /(^|\/)bower_components\//,
+  /(^|\/)vendors?\//,
+  /(^|\/)third[_-]?party\//,
+  // Only at the root; deeper `external/` and `deps/` directories are often first-party code
+  /^external\//,
+  /^deps\//,
+  /(^|\/)Pods\//,
+  /(^|\/)Carthage\//,
+  /(^|\/)\.yarn\//,
+  /(^|\/)jquery([.-][\d.]+)?(\.min)?\.js$/,
+  /(^|\/)bootstrap([.-][\d.]+)?(\.min)?\.(js|css)$/,
+  /(^|\/)gradlew(\.bat)?$/,
+  /(^|\/)mvnw(\.cmd)?$/,
+]
+
+const GENERATED_PATTERNS = [
+  /\.min\.(js|css)$/,
+  /\.pb\.(go|cc|h)$/,
+  /_pb2(_grpc)?\.py$/,
+  /\.g\.dart$/,
+  /\.generated\.\w+$/,
+  /\.designer\.cs$/,
+  /(^|\/)__generated__\//,
+  /(^|\/)generated\//,
+  /\.d\.ts$/,
+  /(^|\/)(package-lock\.json|yarn\.lock|pnpm-lock\.yaml|Cargo\.lock|poetry\.lock|go\.sum|composer\.lock)$/,
+]
+
+const GENERATED_MARKERS = [
+  /^\/\/ Code generated .* DO NOT EDIT\.$/m,
+  /@generated\b/,
+  /^\s*(\/\/|#|\/\*)\s*(This file was |Auto-?)generated\b/im,
+  /^\s*(\/\/|#)\s*DO NOT EDIT/m,
+]
+
+export interface LinguistAttributes {
+  language?: string
+  vendored?: boolean
+  generated?: boolean
+}
+
+export interface LinguistResult {
+  language: string | null
+  vendored: boolean
+  generated: boolean
+}
+
+export function isVendoredPath(filePath: string): boolean {
+  return VENDORED_PATTERNS.some((pattern) => pattern.test(filePath))
+}
+
+export function isGeneratedFile(filePath: string, content?: string): boolean {
+  if (GENERATED_PATTERNS.some((pattern) => pattern.test(filePath))) return true
+  if (!content) return false
+
+  // Markers only count near the top of the file
+  const head = content.slice(0, 2000)
+  if (GENERATED_MARKERS.some((pattern) => pattern.test(head))) return true
+
+  // Minified code: very long lines with almost no line breaks
+  const lines = content.split('\n')
+  return content.length > 5000 && content.length / lines.length > 500
+}
+
+function detectFromShebang(content: string): string | null {
+  const match = content.match(/^#!\s*(\S+)(?:\s+(\S+))?/)
+  if (!match) return null
+
+  let interpreter = match[1].split('/').pop() || ''
+  if (interpreter === 'env' && match[2]) {
+    interpreter = match[2]
+  }
+
+  // python3.11 -> python3
+  interpreter = interpreter.replace(/\d+(\.\d+)*$/, (version) => version.split('.')[0])
+  return INTERPRETERS[interpreter] || INTERPRETERS[interpreter.replace(/\d+$/, '')] || null
+}
+
+/**
+ * Detect a file's language from its path and, when available, its content
+ */
+export function detectLanguage(filePath: string, content?: string): string | null {
+  const name = filePath.split('/').pop() || filePath
+
+  if (FILENAMES[name]) return FILENAMES[name]
+  if (/^Dockerfile\./.test(name) || /\.dockerfile$/i.test(name)) return 'Dockerfile'
+  if (/\.mk$/.test(name)) return 'Makefile'
+
+  const dot = name.lastIndexOf('.')
+  const ext = dot > 0 ? name.slice(dot + 1).toLowerCase() : ''
+
+  const candidates = HEURISTICS[ext]
+  if (candidates) {
+    for (const candidate of candidates) {
+      if (!candidate.pattern || (content && candidate.pattern.test(content))) {
+        return candidate.language
+      }
+    }
+  }
+
+  // .ts is also the extension of Qt Linguist translation files
+  if (ext === 'ts' && content && /^\s*<\?xml[\s\S]*<TS\b/.test(content.slice(0, 500))) {
+    return 'XML'
+  }
+
+  if (EXTENSIONS[ext]) return EXTENSIONS[ext]
+
+  return content ? detectFromShebang(content) : null
+}
+
+/**
+ * Classify a file, letting .gitattributes linguist-* attributes override detection
+ */
+export function classifyFile(
+  filePath: string,
+  content?: string,
+  attributes: LinguistAttributes = {}
+): LinguistResult {
+  return {
+    language: attributes.language || detectLanguage(filePath, content),
+    vendored: attributes.vendored ?? isVendoredPath(filePath),
+    generated: attributes.generated ?? isGeneratedFile(filePath, content),
+  }
+}
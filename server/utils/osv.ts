@@ -0,0 +1,305 @@
+import { normalizePythonName } from './dependencies'
+
+/**
+ * Matching of package versions against OSV advisories (https://ossf.github.io/osv-schema/)
+ */
+
+export type Severity = 'critical' | 'high' | 'medium' | 'low'
+
+// Type aliases rather than interfaces, so that records can be stored in JSON columns as typed
+export type OsvEvent = {
+  introduced?: string
+  fixed?: string
+  last_affected?: string
+  limit?: string
+}
+
+export type OsvAffected = {
+  package?: { ecosystem: string; name: string }
+  ranges?: { type: string; events: OsvEvent[] }[]
+  versions?: string[]
+  ecosystem_specific?: Record<string, unknown>
+  database_specific?: Record<string, unknown>
+}
+
+// The parts of an affected entry needed for matching, as stored with each advisory
+export type StoredAffected = Pick<OsvAffected, 'package' | 'ranges' | 'versions'>
+
+export interface OsvRecord {
+  id: string
+  modified: string
+  published?: string
+  withdrawn?: string
+  aliases?: string[]
+  summary?: string
+  details?: string
+  severity?: { type: string; score: string }[]
+  affected?: OsvAffected[]
+  references?: { type: string; url: string }[]
+  database_specific?: Record<string, unknown>
+}
+
+export const SEVERITY_ORDER: Severity[] = ['critical', 'high', 'medium', 'low']
+
+/**
+ * Package name as stored for lookups; PyPI names are case and separator insensitive
+ */
+export function normalizePackageName(ecosystem: string, name: string): string {
+  return ecosystem === 'PyPI' ? normalizePythonName(name) : name
+}
+
+// Qualifiers that sort after the release they are attached to
+const POST_RELEASE = new Set(['post', 'patch', 'sp', 'r', 'rev', 'final', 'ga', 'release'])
+
+/**
+ * Compare two versions across ecosystems: numeric parts numerically, pre-release
+ * qualifiers (alpha, beta, rc, dev, ...) before the release and post-release ones after
+ */
+export function compareVersions(a: string, b: string): number {
+  const tokens = (version: string) =>
+    version
+      .toLowerCase()
+      .replace(/^v/, '')
+      .split('+')[0]
+      .match(/\d+|[a-z]+/g) || []
+  const rank = (token: string | undefined) => {
+    if (token === undefined) return 0
+    if (/^\d/.test(token)) return 1
+    return POST_RELEASE.has(token) ? 2 : -1
+  }
+
+  const left = tokens(a)
+  const right = tokens(b)
+
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const x = left[i]
+    const y = right[i]
+
+    if (x !== undefined && y !== undefined && /^\d/.test(x) && /^\d/.test(y)) {
+      const diff = parseInt(x) - parseInt(y)
+      if (diff !== 0) return Math.sign(diff)
+      continue
+    }
+
+    // A missing numeric part counts as zero: 1.0 equals 1.0.0
+    if ((x === undefined && /^\d/.test(y!)) || (y === undefined && /^\d/.test(x!))) {
+      const diff = parseInt(x ?? '0') - parseInt(y ?? '0')
+      if (diff !== 0) return Math.sign(diff)
+      continue
+    }
+
+    const diff = rank(x) - rank(y)
+    if (diff !== 0) return Math.sign(diff)
+    if (x !== y) return x! < y! ? -1 : 1
+  }
+
+  return 0
+}
+
+/**
+ * Whether a version falls in an OSV range, evaluating its events in version order
+ */
+function inRange(version: string, events: OsvEvent[]): boolean {
+  const boundary = (event: OsvEvent) =>
+    event.introduced ?? event.fixed ?? event.last_affected ?? event.limit ?? '0'
+  const sorted = [...events].sort((x, y) => {
+    const [a, b] = [boundary(x), boundary(y)]
+    if (a === b) return 0
+    if (a === '0') return -1
+    if (b === '0') return 1
+    return compareVersions(a, b)
+  })
+
+  let affected = false
+  for (const event of sorted) {
+    if (event.introduced !== undefined) {
+      if (event.introduced === '0' || compareVersions(version, event.introduced) >= 0) {
+        affected = true
+      }
+    } else if (event.fixed !== undefined) {
+      if (compareVersions(version, event.fixed) >= 0) affected = false
+    } else if (event.last_affected !== undefined) {
+      if (compareVersions(version, event.last_affected) > 0) affected = false
+    }
+  }
+
+  return affected
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string')
+}
+
+function isEvent(value: unknown): value is OsvEvent {
+  return (
+    isObject(value) &&
+    ['introduced', 'fixed', 'last_affected', 'limit'].every(
+      (key) => value[key] === undefined || typeof value[key] === 'string'
+    )
+  )
+}
+
+function isPackage(value: unknown): value is { ecosystem: string; name: string } {
+  return isObject(value) && typeof value.ecosystem === 'string' && typeof value.name === 'string'
+}
+
+function isRange(value: unknown): value is { type: string; events: OsvEvent[] } {
+  return (
+    isObject(value) &&
+    typeof value.type === 'string' &&
+    Array.isArray(value.events) &&
+    value.events.every(isEvent)
+  )
+}
+
+/**
+ * Affected entries read back from a JSON column, or null when they are not shaped as stored
+ */
+export function parseAffected(value: unknown): StoredAffected[] | null {
+  if (!Array.isArray(value)) return null
+
+  const affected: StoredAffected[] = []
+  for (const entry of value) {
+    if (!isObject(entry)) return null
+
+    const { package: pkg, ranges, versions } = entry
+    if (
+      (pkg !== undefined && !isPackage(pkg)) ||
+      (ranges !== undefined && !(Array.isArray(ranges) && ranges.every(isRange))) ||
+      (versions !== undefined && !isStringArray(versions))
+    ) {
+      return null
+    }
+
+    affected.push({ package: pkg, ranges, versions })
+  }
+
+  return affected
+}
+
+/**
+ * Check a package version against an advisory's affected entries.
+ * Returns null when unaffected, otherwise the lowest version that fixes it, if any.
+ */
+export function matchAffected(
+  affected: StoredAffected[],
+  pkg: { ecosystem: string; name: string; version: string }
+): { fixedVersion: string | null } | null {
+  const name = normalizePackageName(pkg.ecosystem, pkg.name)
+  let matched = false
+  const fixes: string[] = []
+
+  for (const entry of affected) {
+    if (
+      !entry.package ||
+      entry.package.ecosystem.split(':')[0] !== pkg.ecosystem ||
+      normalizePackageName(pkg.ecosystem, entry.package.name) !== name
+    ) {
+      continue
+    }
+
+    const versionRanges = (entry.ranges || []).filter((range) => range.type !== 'GIT')
+    for (const range of versionRanges) {
+      range.events
+        .filter((event) => event.fixed && compareVersions(event.fixed, pkg.version) > 0)
+        .forEach((event) => fixes.push(event.fixed!))
+    }
+
+    if (
+      entry.versions?.some((listed) => compareVersions(listed, pkg.version) === 0) ||
+      versionRanges.some((range) => inRange(pkg.version, range.events))
+    ) {
+      matched = true
+    }
+  }
+
+  if (!matched) return null
+
+  return { fixedVersion: fixes.sort(compareVersions)[0] || null }
+}
+
+const CVSS3_WEIGHTS: Record<string, Record<string, number>> = {
+  AV: { N: 0.85, A: 0.62, L: 0.55, P: 0.2 },
+  AC: { L: 0.77, H: 0.44 },
+  UI: { N: 0.85, R: 0.62 },
+  C: { H: 0.56, L: 0.22, N: 0 },
+  I: { H: 0.56, L: 0.22, N: 0 },
+  A: { H: 0.56, L: 0.22, N: 0 },
+}
+
+/**
+ * Base score of a CVSS v3.x vector such as `CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:H/I:H/A:H`
+ */
+export function cvss3BaseScore(vector: string): number | null {
+  const metrics = new Map(
+    vector
+      .split('/')
+      .slice(1)
+      .map((part) => part.split(':') as [string, string])
+  )
+  const weight = (metric: string) => CVSS3_WEIGHTS[metric]?.[metrics.get(metric) || '']
+  const changed = metrics.get('S') === 'C'
+  // Privileges required weigh more when the scope changes
+  const privilegeWeights: Record<string, number> = {
+    N: 0.85,
+    L: changed ? 0.68 : 0.62,
+    H: changed ? 0.5 : 0.27,
+  }
+  const privileges = privilegeWeights[metrics.get('PR') || '']
+
+  const values = [
+    weight('AV'),
+    weight('AC'),
+    privileges,
+    weight('UI'),
+    weight('C'),
+    weight('I'),
+    weight('A'),
+  ]
+  if (!vector.startsWith('CVSS:3') || values.some((value) => value === undefined)) return null
+
+  const [av, ac, pr, ui, c, i, a] = values as number[]
+  const iss = 1 - (1 - c) * (1 - i) * (1 - a)
+  const impact = changed ? 7.52 * (iss - 0.029) - 3.25 * Math.pow(iss - 0.02, 15) : 6.42 * iss
+  const exploitability = 8.22 * av * ac * pr * ui
+
+  if (impact <= 0) return 0
+
+  const roundUp = (value: number) => Math.ceil(value * 10 - 1e-9) / 10
+  return roundUp(Math.min((changed ? 1.08 : 1) * (impact + exploitability), 10))
+}
+
+export function severityFromScore(score: number): Severity | null {
+  if (score >= 9) return 'critical'
+  if (score >= 7) return 'high'
+  if (score >= 4) return 'medium'
+  if (score > 0) return 'low'
+  return null
+}
+
+/**
+ * Severity of an advisory from its database rating (e.g. GitHub's), else its CVSS v3 vector
+ */
+export function advisorySeverity(record: OsvRecord): {
+  severity: Severity | null
+  score: number | null
+} {
+  const vector = record.severity?.find((entry) => entry.type === 'CVSS_V3')?.score
+  const score = vector ? cvss3BaseScore(vector) : null
+
+  const rated = record.affected?.find((entry) => entry.database_specific?.severity)
+  const rating = String(
+    record.database_specific?.severity || rated?.database_specific?.severity || ''
+  ).toLowerCase()
+  const named = (rating === 'moderate' ? 'medium' : rating) as Severity
+
+  if (SEVERITY_ORDER.includes(named)) {
+    return { severity: named, score }
+  }
+
+  return { severity: score !== null ? severityFromScore(score) : null, score }
+}
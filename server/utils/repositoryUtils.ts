@@ -26,6 +26,19 @@ export const LANGUAGE_COLORS: LanguageColors = {
   JSON: '#292929',
   Markdown: '#083fa1',
   YAML: '#cb171e',
+  Shell: '#89e051',
+  Vue: '#41b883',
+  Svelte: '#ff3e00',
+  Dart: '#00B4AB',
+  Scala: '#c22d40',
+  Lua: '#000080',
+  Elixir: '#6e4a7e',
+  Haskell: '#5e5086',
+  'Objective-C': '#438eff',
+  Perl: '#0298c3',
+  R: '#198CE7',
+  Dockerfile: '#384d54',
+  Makefile: '#427819',
 }
 
 export function getLanguageColor(language: string): string {
@@ -81,7 +94,6 @@ export function generateAvatar(email: string): string {
  */
 export interface RepositoryMetrics {
   totalLines: number
-  codeQuality: number
   activityScore: number
   contributorDiversity: number
 }
@@ -112,12 +124,8 @@ export function calculateRepositoryMetrics(data: {
   const maxEntropy = Math.log2(data.contributors.length)
   const contributorDiversity = maxEntropy > 0 ? (entropy / maxEntropy) * 100 : 0
 
-  // Code quality score (placeholder - would need real linting/analysis)
-  const codeQuality = 75 + Math.random() * 20 // Mock value between 75-95
-
   return {
     totalLines,
-    codeQuality: Math.floor(codeQuality),
     activityScore: Math.floor(activityScore),
     contributorDiversity: Math.floor(contributorDiversity),
   }
@@ -132,6 +140,11 @@ export interface FileTreeNode {
   type: 'file' | 'directory'
   size?: number
   children?: FileTreeNode[]
+  // Hotspot metrics, set by buildHotspotTree
+  lines?: number
+  changes?: number
+  churn?: number
+  score?: number
 }
 
 export function buildFileTree(
@@ -222,6 +235,83 @@ export function isReleaseBranch(branchName: string): boolean {
   return branchName.startsWith('release/') || branchName.startsWith('hotfix/')
 }
 
+export type BranchType = 'default' | 'feature' | 'bugfix' | 'release' | 'other'
+
+export function classifyBranch(branchName: string, isDefault: boolean = false): BranchType {
+  if (isDefault) return 'default'
+  if (isFeatureBranch(branchName)) return 'feature'
+  if (isBugfixBranch(branchName)) return 'bugfix'
+  if (isReleaseBranch(branchName)) return 'release'
+  return 'other'
+}
+
+/**
+ * Comma-separated list from an environment variable, or the fallback when it is unset
+ */
+export function listFromEnv(value: string | undefined, fallback: string[]): string[] {
+  if (!value) return fallback
+  return value
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean)
+}
+
+export interface BranchNamingPolicy {
+  // Allowed `<prefix>/` segments for short-lived branches
+  prefixes: string[]
+  // Names allowed as-is, e.g. main or develop
+  longLived: string[]
+  maxLength: number
+}
+
+export const defaultBranchNamingPolicy: BranchNamingPolicy = {
+  prefixes: listFromEnv(process.env.BRANCH_NAME_PREFIXES, [
+    'feature',
+    'feat',
+    'bugfix',
+    'fix',
+    'release',
+    'hotfix',
+    'chore',
+    'docs',
+    'refactor',
+    'test',
+  ]),
+  longLived: listFromEnv(process.env.BRANCH_LONG_LIVED_NAMES, [
+    'main',
+    'master',
+    'develop',
+    'staging',
+    'production',
+  ]),
+  maxLength: parseInt(process.env.BRANCH_NAME_MAX_LENGTH || '') || 60,
+}
+
+/**
+ * Reasons a branch name breaks the naming policy; empty when it complies
+ */
+export function checkBranchName(branchName: string, policy: BranchNamingPolicy): string[] {
+  if (policy.longLived.includes(branchName)) return []
+
+  const violations: string[] = []
+  const [prefix, ...rest] = branchName.split('/')
+
+  if (rest.length === 0 || !policy.prefixes.includes(prefix)) {
+    const allowed = policy.prefixes.map((p) => `${p}/`).join(', ')
+    violations.push(`Name should start with one of: ${allowed}`)
+  }
+
+  if (!/^[a-z0-9][a-z0-9._\/-]*$/.test(branchName)) {
+    violations.push('Name should use lowercase letters, digits, ".", "_", "-" and "/" only')
+  }
+
+  if (branchName.length > policy.maxLength) {
+    violations.push(`Name is longer than ${policy.maxLength} characters`)
+  }
+
+  return violations
+}
+
 /**
  * Code statistics
  */
@@ -240,3 +330,438 @@ export function calculateCodeChurn(
     .map(([date, churn]) => ({ date, churn }))
     .sort((a, b) => a.date.localeCompare(b.date))
 }
+
+/**
+ * Activity time series utilities
+ */
+export type ActivityGranularity = 'day' | 'week' | 'month'
+
+// Longest series returned, about ten years of days
+const MAX_ACTIVITY_BUCKETS = 3660
+
+export interface ActivityBucket {
+  date: string
+  commits: number
+  additions: number
+  deletions: number
+  churn: number
+  authors: number
+}
+
+const FORMAT_OPTIONS = {
+  date: { year: 'numeric', month: '2-digit', day: '2-digit' },
+  weekday: { weekday: 'long', hour: 'numeric', hourCycle: 'h23' },
+} as const
+
+// Building a formatter costs far more than formatting, so one is kept per kind and time zone
+const formatters = new Map<string, Intl.DateTimeFormat>()
+
+function formatter(kind: keyof typeof FORMAT_OPTIONS, timeZone: string): Intl.DateTimeFormat {
+  const key = `${kind} ${timeZone}`
+  let cached = formatters.get(key)
+  if (!cached) {
+    cached = new Intl.DateTimeFormat('en-US', { timeZone, ...FORMAT_OPTIONS[kind] })
+    formatters.set(key, cached)
+  }
+  return cached
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Calendar date (YYYY-MM-DD) of the day, ISO week (Monday) or month a moment falls in,
+ * as seen from the given IANA time zone
+ */
+export function getBucketStart(
+  date: Date,
+  granularity: ActivityGranularity,
+  timeZone: string = 'UTC'
+): string {
+  const parts = formatter('date', timeZone).formatToParts(date)
+  const part = (type: string) => parseInt(parts.find((p) => p.type === type)!.value)
+
+  // Local calendar date, handled as a UTC date so arithmetic ignores offsets
+  const local = new Date(Date.UTC(part('year'), part('month') - 1, part('day')))
+
+  if (granularity === 'week') {
+    local.setUTCDate(local.getUTCDate() - ((local.getUTCDay() + 6) % 7))
+  } else if (granularity === 'month') {
+    local.setUTCDate(1)
+  }
+
+  return local.toISOString().split('T')[0]
+}
+
+function nextBucket(date: string, granularity: ActivityGranularity): string {
+  const next = new Date(`${date}T00:00:00Z`)
+
+  if (granularity === 'day') next.setUTCDate(next.getUTCDate() + 1)
+  if (granularity === 'week') next.setUTCDate(next.getUTCDate() + 7)
+  if (granularity === 'month') next.setUTCMonth(next.getUTCMonth() + 1)
+
+  return next.toISOString().split('T')[0]
+}
+
+/**
+ * Bucket commits into a gap-free time series between `from` and `to`
+ * (defaulting to the first and last commit).
+ * Throws when the series would be longer than `MAX_ACTIVITY_BUCKETS`.
+ */
+export function calculateActivity(
+  commits: { additions: number; deletions: number; authorEmail: string; committedAt: Date }[],
+  options: { granularity: ActivityGranularity; timeZone?: string; from?: Date; to?: Date }
+): ActivityBucket[] {
+  const { granularity, timeZone = 'UTC' } = options
+  const buckets = new Map<string, ActivityBucket & { authorEmails: Set<string> }>()
+
+  const emptyBucket = (date: string) => ({
+    date,
+    commits: 0,
+    additions: 0,
+    deletions: 0,
+    churn: 0,
+    authors: 0,
+    authorEmails: new Set<string>(),
+  })
+
+  for (const commit of commits) {
+    const date = getBucketStart(commit.committedAt, granularity, timeZone)
+    const bucket = buckets.get(date) || emptyBucket(date)
+
+    bucket.commits++
+    bucket.additions += commit.additions
+    bucket.deletions += commit.deletions
+    bucket.churn += commit.additions + commit.deletions
+    bucket.authorEmails.add(commit.authorEmail)
+    buckets.set(date, bucket)
+  }
+
+  const dates = [...buckets.keys()].sort()
+  const bucketOf = (date: Date) => getBucketStart(date, granularity, timeZone)
+  const first = options.from ? bucketOf(options.from) : dates[0]
+  const last = options.to ? bucketOf(options.to) : dates[dates.length - 1]
+
+  const series: ActivityBucket[] = []
+  for (let date = first; date && date <= last; date = nextBucket(date, granularity)) {
+    if (series.length === MAX_ACTIVITY_BUCKETS) {
+      throw new Error('Activity range too large')
+    }
+
+    const { authorEmails, ...bucket } = buckets.get(date) || emptyBucket(date)
+    series.push({ ...bucket, authors: authorEmails.size })
+  }
+
+  return series
+}
+
+/**
+ * Punchcard utilities
+ */
+export const WEEKDAYS = [
+  'Monday',
+  'Tuesday',
+  'Wednesday',
+  'Thursday',
+  'Friday',
+  'Saturday',
+  'Sunday',
+]
+
+// Working hours run from `start` up to `end` (exclusive), Monday to Friday
+export interface WorkingHours {
+  start: number
+  end: number
+}
+
+export interface Punchcard {
+  days: string[]
+  matrix: number[][]
+  total: number
+  outsideWorkingHours: number
+  outsideWorkingHoursPercentage: number
+  busiest: { day: string; hour: number; commits: number } | null
+}
+
+/**
+ * Weekday (0 = Monday) and hour of a moment, either in an IANA time zone
+ * or shifted by a fixed UTC offset in minutes
+ */
+export function getWeekdayHour(date: Date, zone: string | number): { day: number; hour: number } {
+  if (typeof zone === 'number') {
+    const local = new Date(date.getTime() + zone * 60 * 1000)
+    return { day: (local.getUTCDay() + 6) % 7, hour: local.getUTCHours() }
+  }
+
+  const parts = formatter('weekday', zone).formatToParts(date)
+  const part = (type: string) => parts.find((p) => p.type === type)!.value
+
+  return { day: WEEKDAYS.indexOf(part('weekday')), hour: parseInt(part('hour')) }
+}
+
+/**
+ * Commits per weekday and hour. With `local`, each commit is placed in its author's own
+ * time zone; commits without a recorded offset fall back to UTC.
+ */
+export function calculatePunchcard(
+  commits: { committedAt: Date; timezoneOffset: number | null }[],
+  options: { timeZone: string; workingHours: WorkingHours }
+): Punchcard {
+  const { timeZone, workingHours } = options
+  const matrix = WEEKDAYS.map(() => new Array<number>(24).fill(0))
+  let outside = 0
+
+  for (const commit of commits) {
+    const zone = timeZone === 'local' ? commit.timezoneOffset || 0 : timeZone
+    const { day, hour } = getWeekdayHour(commit.committedAt, zone)
+    matrix[day][hour]++
+
+    if (day >= 5 || hour < workingHours.start || hour >= workingHours.end) {
+      outside++
+    }
+  }
+
+  let busiest: Punchcard['busiest'] = null
+  for (let day = 0; day < 7; day++) {
+    for (let hour = 0; hour < 24; hour++) {
+      const count = matrix[day][hour]
+      if (count > 0 && (!busiest || count > busiest.commits)) {
+        busiest = { day: WEEKDAYS[day], hour, commits: count }
+      }
+    }
+  }
+
+  return {
+    days: WEEKDAYS,
+    matrix,
+    total: commits.length,
+    outsideWorkingHours: outside,
+    outsideWorkingHoursPercentage:
+      commits.length > 0 ? Math.round((outside / commits.length) * 10000) / 100 : 0,
+    busiest,
+  }
+}
+
+/**
+ * Hotspot utilities
+ */
+export interface Hotspot {
+  path: string
+  name: string
+  size: number
+  lines: number
+  changes: number
+  churn: number
+  score: number
+}
+
+/**
+ * Rank files by how often they change times how big they are
+ */
+export function calculateHotspots(
+  files: { path: string; name: string; size: number; lines: number }[],
+  activity: Map<string, { changes: number; churn: number }>
+): Hotspot[] {
+  return files
+    .map((file) => {
+      const { changes, churn } = activity.get(file.path) || { changes: 0, churn: 0 }
+      return { ...file, changes, churn, score: changes * file.lines }
+    })
+    .filter((hotspot) => hotspot.changes > 0)
+    .sort((a, b) => b.score - a.score)
+}
+
+/**
+ * Build a file tree of hotspots where each directory sums the metrics of its contents
+ */
+export function buildHotspotTree(hotspots: Hotspot[]): FileTreeNode[] {
+  const tree = buildFileTree(hotspots)
+  const byPath = new Map(hotspots.map((hotspot) => [hotspot.path, hotspot]))
+
+  const annotate = (node: FileTreeNode) => {
+    if (node.type === 'file') {
+      const hotspot = byPath.get(node.path)!
+      node.lines = hotspot.lines
+      node.changes = hotspot.changes
+      node.churn = hotspot.churn
+      node.score = hotspot.score
+      return
+    }
+
+    node.size = node.lines = node.changes = node.churn = node.score = 0
+    for (const child of node.children || []) {
+      annotate(child)
+      node.size += child.size || 0
+      node.lines += child.lines || 0
+      node.changes += child.changes || 0
+      node.churn += child.churn || 0
+      node.score += child.score || 0
+    }
+    node.children!.sort((a, b) => (b.score || 0) - (a.score || 0))
+  }
+
+  tree.forEach(annotate)
+  return tree.sort((a, b) => (b.score || 0) - (a.score || 0))
+}
+
+/**
+ * Roll file hotspots up into every directory that contains them
+ */
+export function aggregateDirectoryHotspots(hotspots: Hotspot[]): Hotspot[] {
+  const directories = new Map<string, Hotspot>()
+
+  for (const hotspot of hotspots) {
+    const parts = hotspot.path.split('/').slice(0, -1)
+
+    for (let i = 1; i <= parts.length; i++) {
+      const dirPath = parts.slice(0, i).join('/')
+      const directory = directories.get(dirPath) || {
+        path: dirPath,
+        name: parts[i - 1],
+        size: 0,
+        lines: 0,
+        changes: 0,
+        churn: 0,
+        score: 0,
+      }
+
+      directory.size += hotspot.size
+      directory.lines += hotspot.lines
+      directory.changes += hotspot.changes
+      directory.churn += hotspot.churn
+      directory.score += hotspot.score
+      directories.set(dirPath, directory)
+    }
+  }
+
+  return [...directories.values()].sort((a, b) => b.score - a.score)
+}
+
+/**
+ * Temporal coupling utilities
+ */
+export interface CouplingPair {
+  path: string
+  coupledPath: string
+  changes: number
+  coupledChanges: number
+  coChanges: number
+  support: number
+  confidence: number
+  reverseConfidence: number
+}
+
+/**
+ * Pairwise change coupling from the sets of paths changed together in each commit.
+ * `support` is the share of all commits changing both paths; `confidence` is how often
+ * `coupledPath` changed when `path` did. Pairs are oriented so `confidence` is the
+ * stronger direction, and `focus` limits results to pairs involving matching paths.
+ */
+export function calculateCoupling(
+  changeSets: string[][],
+  options: { minCoChanges: number; minConfidence: number; focus?: (path: string) => boolean }
+): CouplingPair[] {
+  const changes = new Map<string, number>()
+  const coChanges = new Map<string, number>()
+
+  for (const changeSet of changeSets) {
+    const paths = [...new Set(changeSet)].sort()
+
+    for (const changed of paths) {
+      changes.set(changed, (changes.get(changed) || 0) + 1)
+    }
+
+    for (let i = 0; i < paths.length; i++) {
+      for (let j = i + 1; j < paths.length; j++) {
+        if (options.focus && !options.focus(paths[i]) && !options.focus(paths[j])) continue
+
+        const key = `${paths[i]}\0${paths[j]}`
+        coChanges.set(key, (coChanges.get(key) || 0) + 1)
+      }
+    }
+  }
+
+  const round = (value: number) => Math.round(value * 1000) / 1000
+  const pairs: CouplingPair[] = []
+
+  for (const [key, shared] of coChanges) {
+    if (shared < options.minCoChanges) continue
+
+    const [first, second] = key.split('\0')
+    // With a focus the focused path comes first, otherwise the one with fewer changes
+    const swap = options.focus ? !options.focus(first) : changes.get(first)! > changes.get(second)!
+    const [path, coupledPath] = swap ? [second, first] : [first, second]
+
+    const confidence = shared / changes.get(path)!
+    const reverseConfidence = shared / changes.get(coupledPath)!
+    if (Math.max(confidence, reverseConfidence) < options.minConfidence) continue
+
+    pairs.push({
+      path,
+      coupledPath,
+      changes: changes.get(path)!,
+      coupledChanges: changes.get(coupledPath)!,
+      coChanges: shared,
+      support: round(shared / changeSets.length),
+      confidence: round(confidence),
+      reverseConfidence: round(reverseConfidence),
+    })
+  }
+
+  return pairs.sort((a, b) => b.confidence - a.confidence || b.coChanges - a.coChanges)
+}
+
+/**
+ * Bus factor utilities
+ */
+
+/**
+ * Authors who know a file: everyone behind at least `minShare` of its changes, plus its top author
+ */
+export function getKnowledgeHolders(
+  changesByAuthor: Map<string, number>,
+  minShare: number = 0.25
+): string[] {
+  const total = [...changesByAuthor.values()].reduce((sum, changes) => sum + changes, 0)
+  const ranked = [...changesByAuthor].sort((a, b) => b[1] - a[1])
+
+  return ranked
+    .filter(([, changes], index) => index === 0 || changes / total >= minShare)
+    .map(([author]) => author)
+}
+
+/**
+ * Smallest number of authors whose departure leaves more than half the files without
+ * anyone who knows them, removing the author who knows the most files first
+ */
+export function calculateBusFactor(holdersByFile: Map<string, string[]>): {
+  busFactor: number
+  keyAuthors: string[]
+} {
+  const remaining = new Map([...holdersByFile].map(([file, holders]) => [file, new Set(holders)]))
+  const keyAuthors: string[] = []
+  const orphaned = () => [...remaining.values()].filter((holders) => holders.size === 0).length
+
+  while (remaining.size > 0 && orphaned() <= remaining.size / 2) {
+    const fileCounts = new Map<string, number>()
+    for (const holders of remaining.values()) {
+      for (const author of holders) {
+        fileCounts.set(author, (fileCounts.get(author) || 0) + 1)
+      }
+    }
+
+    const [top] = [...fileCounts].sort((a, b) => b[1] - a[1])[0] || []
+    if (!top) break
+
+    keyAuthors.push(top)
+    for (const holders of remaining.values()) holders.delete(top)
+  }
+
+  return { busFactor: keyAuthors.length, keyAuthors }
+}
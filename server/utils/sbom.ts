@@ -0,0 +1,208 @@
+import * as crypto from 'crypto'
+import { Ecosystem } from './dependencies'
+
+/**
+ * Software bill of materials export as CycloneDX 1.5 and SPDX 2.3 JSON
+ */
+
+export type SbomFormat = 'cyclonedx' | 'spdx'
+
+export interface SbomDependency {
+  name: string
+  version: string | null
+  ecosystem: string
+  isDirect: boolean
+  manifestPath: string
+  license?: string | null
+}
+
+export interface SbomSubject {
+  name: string
+  url: string
+  commitHash?: string | null
+  license?: string | null
+}
+
+const TOOL_NAME = 'gitverse'
+
+const PURL_TYPES: Record<Ecosystem, string> = {
+  npm: 'npm',
+  PyPI: 'pypi',
+  Go: 'golang',
+  'crates.io': 'cargo',
+  Maven: 'maven',
+}
+
+/**
+ * Whether a version is a single release rather than a range such as `^1.2.0`
+ */
+export function isExactVersion(version: string | null): version is string {
+  return !!version && /^v?\d+(\.\d+)*([-+.][\w.+-]*)?$/.test(version)
+}
+
+/**
+ * Package URL (https://github.com/package-url/purl-spec); version ranges are left out
+ */
+export function toPurl(dependency: { name: string; version: string | null; ecosystem: string }) {
+  const type = PURL_TYPES[dependency.ecosystem as Ecosystem] || dependency.ecosystem.toLowerCase()
+  const encode = (part: string) => encodeURIComponent(part).replace(/%2F/g, '/')
+
+  let name = encode(dependency.name)
+  if (dependency.ecosystem === 'Maven') {
+    name = dependency.name.split(':').map(encode).join('/')
+  } else if (dependency.name.startsWith('@')) {
+    // Scoped npm packages keep the namespace as its own segment
+    name = `%40${encode(dependency.name.slice(1))}`
+  }
+
+  const version = isExactVersion(dependency.version) ? `@${encode(dependency.version)}` : ''
+  return `pkg:${type}/${name}${version}`
+}
+
+/**
+ * A license usable as an SPDX expression; npm also allows `SEE LICENSE IN <file>` and
+ * `UNLICENSED`, which are not
+ */
+function spdxExpression(license: string | null | undefined): string | null {
+  if (!license || /^(SEE\s|UNLICENSED$)/i.test(license)) return null
+  return /^[\w.+\-() ]+$/.test(license) ? license : null
+}
+
+// One entry per package and declared version or range, with the manifests it was found in.
+// Ranges are kept apart although they share a version-less purl, so `ref` tells them apart.
+function uniquePackages(dependencies: SbomDependency[]) {
+  const packages = new Map<
+    string,
+    SbomDependency & { ref: string; purl: string; manifests: string[] }
+  >()
+
+  for (const dependency of dependencies) {
+    const ref = `${dependency.ecosystem}:${dependency.name}@${dependency.version || ''}`
+    const existing = packages.get(ref)
+    if (existing) {
+      existing.isDirect = existing.isDirect || dependency.isDirect
+      existing.manifests.push(dependency.manifestPath)
+    } else {
+      packages.set(ref, {
+        ...dependency,
+        ref,
+        purl: toPurl(dependency),
+        manifests: [dependency.manifestPath],
+      })
+    }
+  }
+
+  return [...packages.values()].sort(
+    (a, b) => a.purl.localeCompare(b.purl) || (a.version || '').localeCompare(b.version || '')
+  )
+}
+
+export function toCycloneDX(subject: SbomSubject, dependencies: SbomDependency[]) {
+  const packages = uniquePackages(dependencies)
+  const rootRef = `repository:${subject.name}`
+
+  return {
+    bomFormat: 'CycloneDX',
+    specVersion: '1.5',
+    serialNumber: `urn:uuid:${crypto.randomUUID()}`,
+    version: 1,
+    metadata: {
+      timestamp: new Date().toISOString(),
+      tools: { components: [{ type: 'application', name: TOOL_NAME }] },
+      component: {
+        type: 'application',
+        'bom-ref': rootRef,
+        name: subject.name,
+        ...(subject.commitHash && { version: subject.commitHash }),
+        ...(spdxExpression(subject.license) && {
+          licenses: [{ expression: spdxExpression(subject.license) }],
+        }),
+        externalReferences: [{ type: 'vcs', url: subject.url }],
+      },
+    },
+    components: packages.map((pkg) => ({
+      type: 'library',
+      'bom-ref': pkg.ref,
+      name: pkg.name,
+      ...(pkg.version && { version: pkg.version }),
+      ...(spdxExpression(pkg.license) && {
+        licenses: [{ expression: spdxExpression(pkg.license) }],
+      }),
+      purl: pkg.purl,
+      properties: [
+        { name: `${TOOL_NAME}:ecosystem`, value: pkg.ecosystem },
+        { name: `${TOOL_NAME}:direct`, value: String(pkg.isDirect) },
+        ...pkg.manifests.map((manifest) => ({ name: `${TOOL_NAME}:manifest`, value: manifest })),
+      ],
+    })),
+    // Only direct dependencies are known to hang off the repository itself
+    dependencies: [
+      {
+        ref: rootRef,
+        dependsOn: packages.filter((pkg) => pkg.isDirect).map((pkg) => pkg.ref),
+      },
+    ],
+  }
+}
+
+export function toSPDX(subject: SbomSubject, dependencies: SbomDependency[]) {
+  const packages = uniquePackages(dependencies)
+  const rootId = 'SPDXRef-Repository'
+  const spdxId = (index: number) => `SPDXRef-Package-${index + 1}`
+  const namespace = `${encodeURIComponent(subject.name)}-${crypto.randomUUID()}`
+
+  return {
+    spdxVersion: 'SPDX-2.3',
+    dataLicense: 'CC0-1.0',
+    SPDXID: 'SPDXRef-DOCUMENT',
+    name: subject.name,
+    documentNamespace: `https://spdx.org/spdxdocs/${namespace}`,
+    creationInfo: {
+      created: new Date().toISOString().replace(/\.\d{3}Z$/, 'Z'),
+      creators: [`Tool: ${TOOL_NAME}`],
+    },
+    packages: [
+      {
+        SPDXID: rootId,
+        name: subject.name,
+        ...(subject.commitHash && { versionInfo: subject.commitHash }),
+        downloadLocation: `git+${subject.url}`,
+        filesAnalyzed: false,
+        licenseConcluded: 'NOASSERTION',
+        licenseDeclared: spdxExpression(subject.license) || 'NOASSERTION',
+        copyrightText: 'NOASSERTION',
+      },
+      ...packages.map((pkg, index) => ({
+        SPDXID: spdxId(index),
+        name: pkg.name,
+        ...(pkg.version && { versionInfo: pkg.version }),
+        downloadLocation: 'NOASSERTION',
+        filesAnalyzed: false,
+        licenseConcluded: 'NOASSERTION',
+        licenseDeclared: spdxExpression(pkg.license) || 'NOASSERTION',
+        copyrightText: 'NOASSERTION',
+        externalRefs: [
+          {
+            referenceCategory: 'PACKAGE-MANAGER',
+            referenceType: 'purl',
+            referenceLocator: pkg.purl,
+          },
+        ],
+        comment: `Declared in ${pkg.manifests.join(', ')}`,
+      })),
+    ],
+    relationships: [
+      {
+        spdxElementId: 'SPDXRef-DOCUMENT',
+        relationshipType: 'DESCRIBES',
+        relatedSpdxElement: rootId,
+      },
+      ...packages.map((pkg, index) => ({
+        spdxElementId: rootId,
+        relationshipType: 'DEPENDS_ON',
+        relatedSpdxElement: spdxId(index),
+        ...(!pkg.isDirect && { comment: 'Transitive dependency' }),
+      })),
+    ],
+  }
+}
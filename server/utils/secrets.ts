@@ -0,0 +1,276 @@
+import * as crypto from 'crypto'
+import * as path from 'path'
+
+/**
+ * Detection of leaked credentials in file contents and commit patches.
+ * Matched values are only ever returned redacted, alongside a fingerprint.
+ */
+
+export interface SecretRule {
+  id: string
+  description: string
+  pattern: RegExp // The first capture group, if any, is the secret itself
+  minEntropy?: number // Bits per character the secret must reach to count
+  // The match is only a marker, such as a key header, so it is shown as is and the
+  // finding is identified by its file instead of its value
+  marker?: boolean
+  // Only applies to files matching this predicate, e.g. `.env` files
+  files?: (filePath: string) => boolean
+}
+
+export interface SecretMatch {
+  rule: string
+  line: number
+  redacted: string
+  fingerprint: string
+  entropy: number
+}
+
+export interface SecretAllowList {
+  paths: RegExp[]
+  fingerprints: Set<string>
+}
+
+// File at the repository root listing path globs and fingerprints to ignore
+export const ALLOW_LIST_FILE = '.secretsignore'
+
+// Marker that silences a single line, e.g. `apiKey = 'test-key' // gitverse:allow-secret`
+const ALLOW_MARKER = 'gitverse:allow-secret'
+
+// Values that are obviously examples rather than real credentials
+const PLACEHOLDER = /example|sample|dummy|placeholder|changeme|your[_-]|xxxx|\*{4}|<[^>]*>|\$\{/i
+
+// Variable and key names that suggest their value is a credential
+const SECRET_NAMES = 'password|passwd|secret|token|api[_-]?key|access[_-]?key|auth[_-]?key'
+
+// Lines longer than this are minified code or embedded data, not hand-written config
+const MAX_LINE_LENGTH = 1000
+
+/**
+ * `.env` files hold real configuration; `.env.example` and friends are templates
+ */
+export function isDotenvPath(filePath: string): boolean {
+  const name = path.posix.basename(filePath)
+  return /^\.env(\.|$)/.test(name) && !/\.(example|sample|template|dist|defaults?)$/.test(name)
+}
+
+export const SECRET_RULES: SecretRule[] = [
+  {
+    id: 'private-key',
+    description: 'Private key',
+    pattern: /-----BEGIN (?:(?:RSA|DSA|EC|OPENSSH|PGP|ENCRYPTED) )?PRIVATE KEY(?: BLOCK)?-----/,
+    marker: true,
+  },
+  {
+    id: 'aws-access-key-id',
+    description: 'AWS access key ID',
+    pattern: /\b((?:AKIA|ASIA|ABIA|ACCA)[0-9A-Z]{16})\b/,
+    minEntropy: 3,
+  },
+  {
+    id: 'aws-secret-access-key',
+    description: 'AWS secret access key',
+    pattern: /aws.{0,20}?(?:secret|key).{0,20}?['"]?\s*[:=]\s*['"]?([A-Za-z0-9/+]{40})(?![\w/+])/i,
+    minEntropy: 4,
+  },
+  {
+    id: 'github-token',
+    description: 'GitHub token',
+    pattern: /\b((?:ghp|gho|ghu|ghs|ghr)_[A-Za-z0-9]{36,255}|github_pat_\w{82})\b/,
+  },
+  {
+    id: 'gitlab-token',
+    description: 'GitLab personal access token',
+    pattern: /\b(glpat-[\w-]{20})\b/,
+  },
+  {
+    id: 'slack-token',
+    description: 'Slack token',
+    pattern: /\b(xox[baprs]-[A-Za-z0-9-]{10,})\b/,
+  },
+  {
+    id: 'stripe-secret-key',
+    description: 'Stripe live secret key',
+    pattern: /\b([sr]k_live_[A-Za-z0-9]{24,})\b/,
+  },
+  {
+    id: 'google-api-key',
+    description: 'Google API key',
+    pattern: /\b(AIza[\w-]{35})(?![\w-])/,
+  },
+  {
+    id: 'jwt',
+    description: 'JSON Web Token',
+    pattern: /\b(eyJ[\w-]{10,}\.eyJ[\w-]{10,}\.[\w-]{10,})(?![\w-])/,
+  },
+  {
+    id: 'dotenv-value',
+    description: 'Value in a committed .env file',
+    pattern: /^\s*(?:export\s+)?[A-Za-z_][\w.]*\s*=\s*['"]?([^\s'"#]{8,})/,
+    minEntropy: 3,
+    files: isDotenvPath,
+  },
+  {
+    id: 'generic-secret',
+    description: 'Hard-coded password, token or API key',
+    pattern: new RegExp(
+      `(?:${SECRET_NAMES})\\w*['"]?\\s*(?::=|=>|[:=])\\s*['"]([^'"\\s]{12,})['"]`,
+      'i'
+    ),
+    minEntropy: 3.5,
+    // Committed .env files are covered, value by value, by their own rule
+    files: (filePath) => !isDotenvPath(filePath),
+  },
+]
+
+/**
+ * Shannon entropy of a string in bits per character
+ */
+export function shannonEntropy(value: string): number {
+  const counts = new Map<string, number>()
+  for (const char of value) {
+    counts.set(char, (counts.get(char) || 0) + 1)
+  }
+
+  let entropy = 0
+  for (const count of counts.values()) {
+    const p = count / value.length
+    entropy -= p * Math.log2(p)
+  }
+
+  return entropy
+}
+
+/**
+ * Keep the first four characters of a secret and mask the rest
+ */
+export function redactSecret(value: string): string {
+  const visible = value.length > 12 ? 4 : 0
+  return value.slice(0, visible) + '*'.repeat(Math.min(value.length - visible, 16))
+}
+
+/**
+ * Stable identifier of a secret, the same wherever and whenever it appears
+ */
+export function secretFingerprint(rule: string, value: string): string {
+  return crypto.createHash('sha256').update(`${rule}:${value}`).digest('hex')
+}
+
+/**
+ * Convert a gitignore-style glob into a regular expression over repository paths.
+ * Patterns without a slash match at any depth; a trailing slash matches a directory.
+ */
+function globToRegExp(glob: string): RegExp {
+  let pattern = glob.replace(/^\//, '')
+  const anchored = glob.startsWith('/') || pattern.replace(/\/$/, '').includes('/')
+  if (pattern.endsWith('/')) pattern += '**'
+
+  let source = ''
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i]
+    if (char === '*' && pattern[i + 1] === '*') {
+      // `**/` matches zero or more directories
+      source += pattern[i + 2] === '/' ? '(?:.*/)?' : '.*'
+      i += pattern[i + 2] === '/' ? 2 : 1
+    } else if (char === '*') {
+      source += '[^/]*'
+    } else if (char === '?') {
+      source += '[^/]'
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    }
+  }
+
+  return new RegExp(`^${anchored ? '' : '(?:.*/)?'}${source}(?:/.*)?$`)
+}
+
+/**
+ * Parse an allow-list file: one path glob or secret fingerprint per line, `#` for comments
+ */
+export function parseAllowList(content: string | null): SecretAllowList {
+  const allowList: SecretAllowList = { paths: [], fingerprints: new Set() }
+
+  for (const raw of (content || '').split('\n')) {
+    const line = raw.trim()
+    if (!line || line.startsWith('#')) continue
+
+    if (/^[0-9a-f]{64}$/.test(line)) {
+      allowList.fingerprints.add(line)
+    } else {
+      allowList.paths.push(globToRegExp(line))
+    }
+  }
+
+  return allowList
+}
+
+export function isPathAllowed(filePath: string, allowList: SecretAllowList): boolean {
+  return filePath === ALLOW_LIST_FILE || allowList.paths.some((glob) => glob.test(filePath))
+}
+
+/**
+ * Whether a stored finding is covered by the allow-list, e.g. after the list was extended
+ */
+export function isFindingAllowed(
+  finding: { path: string; fingerprint: string },
+  allowList: SecretAllowList
+): boolean {
+  return isPathAllowed(finding.path, allowList) || allowList.fingerprints.has(finding.fingerprint)
+}
+
+/**
+ * Scan lines of a file for secrets. Lines are given with their line numbers so that
+ * both whole files and the added lines of a patch can be scanned.
+ */
+export function scanLines(
+  filePath: string,
+  lines: Iterable<{ line: number; text: string }>,
+  allowList: SecretAllowList
+): SecretMatch[] {
+  if (isPathAllowed(filePath, allowList)) return []
+
+  const rules = SECRET_RULES.filter((rule) => !rule.files || rule.files(filePath))
+  const matches: SecretMatch[] = []
+
+  for (const { line, text } of lines) {
+    if (text.length > MAX_LINE_LENGTH || text.includes(ALLOW_MARKER)) continue
+
+    for (const rule of rules) {
+      const match = text.match(rule.pattern)
+      if (!match) continue
+
+      const value = match[1] ?? match[0]
+      const entropy = shannonEntropy(value)
+      if (rule.minEntropy !== undefined && entropy < rule.minEntropy) continue
+      if (!rule.marker && PLACEHOLDER.test(value)) continue
+
+      const fingerprint = secretFingerprint(rule.id, rule.marker ? filePath : value)
+      if (allowList.fingerprints.has(fingerprint)) continue
+
+      matches.push({
+        rule: rule.id,
+        line,
+        redacted: rule.marker ? value : redactSecret(value),
+        fingerprint,
+        entropy: Math.round(entropy * 100) / 100,
+      })
+
+      // One finding per line; specific rules come before the generic ones
+      break
+    }
+  }
+
+  return matches
+}
+
+/**
+ * Scan a whole file's content
+ */
+export function scanContent(
+  filePath: string,
+  content: string,
+  allowList: SecretAllowList
+): SecretMatch[] {
+  const lines = content.split('\n').map((text, index) => ({ line: index + 1, text }))
+  return scanLines(filePath, lines, allowList)
+}